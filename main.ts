@@ -1,34 +1,175 @@
 import {
     App,
+    Component,
+    MarkdownPostProcessorContext,
+    MarkdownRenderChild,
+    Events,
+    FileView,
     Plugin,
     WorkspaceLeaf,
     ItemView,
+    Menu,
+    Modal,
     Notice,
+    Platform,
     setIcon,
     PluginSettingTab,
     Setting,
+    TAbstractFile,
+    arrayBufferToBase64,
+    base64ToArrayBuffer,
+    TextFileView,
+    TFile,
+    TFolder,
+    View,
+    debounce,
+    getLinkpath,
+    normalizePath,
 } from 'obsidian';
 
 interface CanvasDrawingNodePluginSettings {
-    numPens: number;
-    penColors: string[];
-    penSizes: number[];
-    penSmoothness: number[];
-    penOpacities: number[];
-    strokesData: { [nodeId: string]: Stroke[] };
-    drawableNodes: string[];
+    pens: Pen[];
+    eraserMode: EraserMode;
+    eraserSize: number;
+    usePressure: boolean;
+    simulatePressure: boolean;
+    snapToShape: boolean;
+    simplifyTolerance: number; // Maximum deviation in pixels when dropping points of a finished stroke, 0 keeps all
+    cleanupOrphansOnLoad: boolean;
+    archiveRemovedDrawings: boolean; // Keep the strokes of nodes made non-drawable, restored when made drawable again
+    showAnnotationsInNotes: boolean; // Render canvas ink over notes opened or embedded outside the canvas
+    exportOptions: DrawingExportOptions; // Last used export choices
+    toolStates: { [filePath: string]: ToolState }; // Last used tool of each canvas and drawing file
+    // Legacy global storage, migrated into per-canvas sidecar files on load
+    strokesData?: { [nodeId: string]: Stroke[] };
+    drawableNodes?: string[];
+    // Legacy parallel pen arrays, migrated into pens on load
+    numPens?: number;
+    penColors?: string[];
+    penSizes?: number[];
+    penSmoothness?: number[];
+    penOpacities?: number[];
+    penTypes?: PenType[];
 }
 
 const DEFAULT_SETTINGS: CanvasDrawingNodePluginSettings = {
-    numPens: 3,
-    penColors: ['#000000', '#FF0000', '#00FF00'],
-    penSizes: [5, 5, 5],
-    penSmoothness: [0.5, 0.5, 0.5],
-    penOpacities: [1.0, 1.0, 1.0],
-    strokesData: {},
-    drawableNodes: [],
+    pens: [
+        { id: 'pen-1', name: 'Black', icon: '', type: 'ballpoint', color: '#000000', size: 5, smoothness: 0.5, opacity: 1.0 },
+        { id: 'pen-2', name: 'Red', icon: '', type: 'ballpoint', color: '#FF0000', size: 5, smoothness: 0.5, opacity: 1.0 },
+        { id: 'pen-3', name: 'Green', icon: '', type: 'ballpoint', color: '#00FF00', size: 5, smoothness: 0.5, opacity: 1.0 },
+    ],
+    eraserMode: 'stroke',
+    eraserSize: 20,
+    usePressure: true,
+    simulatePressure: false,
+    snapToShape: false,
+    simplifyTolerance: 0.5,
+    cleanupOrphansOnLoad: false,
+    archiveRemovedDrawings: true,
+    showAnnotationsInNotes: true,
+    exportOptions: { format: 'svg', scale: 2, embed: false },
+    toolStates: {},
 };
 
+// Suffix appended to a .canvas path to get the file holding its drawings
+const DRAWING_SIDECAR_SUFFIX = '.drawing.json';
+// Version 2 stores stroke points packed by encodeStroke; version 1 files with point lists are still read
+const DRAWING_DATA_VERSION = 2;
+
+// Stored point coordinates are rounded to a tenth of a pixel and pressure to a thousandth
+const POINT_COORDINATE_PRECISION = 10;
+const POINT_PRESSURE_PRECISION = 1000;
+
+// Standalone drawings are .draw files opened in their own view; their strokes use a fixed node ID
+const DRAWING_FILE_EXTENSION = 'draw';
+const DRAWING_VIEW_TYPE = 'canvas-drawing-file';
+const DRAWING_FILE_NODE_ID = 'drawing';
+const DRAWING_NODE_SIZE = { width: 400, height: 300 };
+
+// Strokes drawn on the canvas background are stored like a node with this ID, in canvas coordinates
+const BACKGROUND_NODE_ID = '@background';
+
+// Upper bound for the backing store resolution relative to CSS pixels, and its rounding steps while zooming
+const MAX_PIXEL_RATIO = 4;
+const PIXEL_RATIO_STEP = 0.25;
+
+// Rendered elements text-anchored strokes attach to, and how much text is kept to find an edited anchor again
+const TEXT_ANCHOR_BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, th, .cm-line';
+const TEXT_ANCHOR_CONTEXT_LENGTH = 24;
+const MISSING_ANCHOR_COLOR = '#e93147';
+
+// Share of the canvas area above which a changed region is cheaper to redraw in full
+const MAX_DIRTY_REGION_SHARE = 0.5;
+
+// Size of the selection box handles and distance of the rotate handle above the box
+const SELECTION_HANDLE_SIZE = 8;
+const SELECTION_ROTATE_HANDLE_OFFSET = 20;
+// Offset of duplicated strokes from the originals
+const SELECTION_DUPLICATE_OFFSET = 10;
+
+// Shape tools shown in the toolbar
+const SHAPE_TOOLS: { shape: ShapeKind; name: string; icon: string }[] = [
+    { shape: 'line', name: 'Line', icon: 'minus' },
+    { shape: 'arrow', name: 'Arrow', icon: 'move-up-right' },
+    { shape: 'rectangle', name: 'Rectangle', icon: 'square' },
+    { shape: 'ellipse', name: 'Ellipse', icon: 'circle' },
+];
+const ARROW_HEAD_ANGLE = Math.PI / 6;
+const ELLIPSE_SEGMENTS = 64;
+
+// Highlighter tip angle from the x-axis and thickness relative to its width
+const HIGHLIGHTER_NIB_ANGLE = (80 * Math.PI) / 180;
+const HIGHLIGHTER_NIB_THICKNESS = 0.25;
+
+// Labels and toolbar icons of the pen types
+const PEN_TYPES: { type: PenType; name: string; icon: string }[] = [
+    { type: 'ballpoint', name: 'Ballpoint', icon: 'brush' },
+    { type: 'marker', name: 'Marker', icon: 'pen-tool' },
+    { type: 'highlighter', name: 'Highlighter', icon: 'highlighter' },
+];
+
+// Pen a new pen starts from, and version of the exported pen set format
+const DEFAULT_PEN: Omit<Pen, 'id' | 'name'> = { icon: '', type: 'ballpoint', color: '#000000', size: 5, smoothness: 0.5, opacity: 1.0 };
+const PEN_SET_VERSION = 1;
+
+// Shape recognition: hold time and jitter allowed, minimum size, and fit tolerances (relative to size)
+const SHAPE_HOLD_DELAY = 500;
+const SHAPE_HOLD_TOLERANCE = 3;
+const SHAPE_MIN_SIZE = 10;
+const SHAPE_CLOSED_TOLERANCE = 0.15;
+const SHAPE_STRAIGHT_TOLERANCE = 0.08;
+const SHAPE_FIT_TOLERANCE = 0.06;
+
+// Drawing changes are written once no further change happened for this long (ms)
+const SAVE_DEBOUNCE_DELAY = 1000;
+// Suffix of the temporary file a drawing file is written to before it replaces the original
+const TEMP_FILE_SUFFIX = '.tmp';
+
+// Number of times nodes were made non-drawable that can be undone per canvas
+const MAX_REMOVED_DRAWINGS = 10;
+
+// Number of undo and of redo steps saved with a drawing, so undo works after reloading
+const PERSISTED_HISTORY_LENGTH = 20;
+
+// Maximum number of undo steps kept per drawable node
+const MAX_HISTORY_LENGTH = 100;
+
+// Node IDs are only unique within a canvas, so drawable nodes are identified by canvas path plus node ID
+function getDrawingKey(canvasPath: string, nodeId: string): string {
+    return `${canvasPath}#${nodeId}`;
+}
+
+// Format a byte count for display
+function formatByteSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 class CanvasDrawingNodePluginSettingsTab extends PluginSettingTab {
     plugin: CanvasDrawingNodePlugin;
 
@@ -37,880 +178,5537 @@ class CanvasDrawingNodePluginSettingsTab extends PluginSettingTab {
         this.plugin = plugin;
     }
 
+    // Method to add, remove or reorder pens and show the result
+    async updatePens(change: () => void) {
+        change();
+        await this.plugin.saveSettings();
+        this.display(); // Refresh the settings tab
+        this.plugin.refreshToolbar();
+    }
+
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
         containerEl.createEl('h2', { text: 'Canvas Drawing Node Plugin Settings' });
 
-        // Setting for Number of Pens
-        new Setting(containerEl)
-            .setName('Number of Pens')
-            .setDesc('Define how many pens you want.')
-            .addSlider(slider => slider
-                .setLimits(1, 10, 1)
-                .setValue(this.plugin.settings.numPens)
-                .setDynamicTooltip()
-                .onChange(async (value) => {
-                    this.plugin.settings.numPens = value;
-                    // Adjust penColors, penSizes, and penSmoothness arrays based on numPens
-                    while (this.plugin.settings.penColors.length < value) {
-                        this.plugin.settings.penColors.push('#000000');        // Default to black
-                        this.plugin.settings.penSizes.push(5);                // Default size
-                        this.plugin.settings.penSmoothness.push(0.5);         // Default smoothness
-                    }
-                    while (this.plugin.settings.penColors.length > value) {
-                        this.plugin.settings.penColors.pop();
-                        this.plugin.settings.penSizes.pop();
-                        this.plugin.settings.penSmoothness.pop();
-                    }
-                    await this.plugin.saveSettings();
-                    this.display(); // Refresh the settings tab
-                    this.plugin.refreshToolbar();
-                }));
+        // Settings for each pen in the library
+        const pens = this.plugin.settings.pens;
+        pens.forEach((pen, i) => {
+            new Setting(containerEl)
+                .setName(pen.name)
+                .setHeading()
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(i === 0)
+                    .onClick(() => this.updatePens(() => pens.splice(i - 1, 0, ...pens.splice(i, 1)))))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .setDisabled(i === pens.length - 1)
+                    .onClick(() => this.updatePens(() => pens.splice(i + 1, 0, ...pens.splice(i, 1)))))
+                .addExtraButton(button => button
+                    .setIcon('copy')
+                    .setTooltip('Duplicate')
+                    .onClick(() => this.updatePens(() => pens.splice(i + 1, 0, { ...pen, id: createPenId(), name: `${pen.name} copy` }))))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete')
+                    .setDisabled(pens.length === 1) // Keep at least one pen
+                    .onClick(() => this.updatePens(() => {
+                        pens.splice(i, 1);
+                        this.plugin.forgetPens([pen.id]);
+                    })));
+
+            // Pen Name
+            new Setting(containerEl)
+                .setName('Name')
+                .setDesc('Shown when hovering the pen in the toolbar.')
+                .addText(text => text
+                    .setValue(pen.name)
+                    .onChange(async (value) => {
+                        pen.name = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshToolbar();
+                    }));
+
+            // Pen Type
+            new Setting(containerEl)
+                .setName('Type')
+                .setDesc('Select the kind of pen.')
+                .addDropdown(dropdown => {
+                    PEN_TYPES.forEach((penType) => dropdown.addOption(penType.type, penType.name));
+                    dropdown
+                        .setValue(pen.type)
+                        .onChange(async (value) => {
+                            pen.type = value as PenType;
+                            await this.plugin.saveSettings();
+                            this.plugin.refreshToolbar();
+                        });
+                });
+
+            // Pen Icon
+            new Setting(containerEl)
+                .setName('Icon')
+                .setDesc('Name of a Lucide icon for the toolbar. Leave empty to use the icon of the pen type.')
+                .addText(text => text
+                    .setPlaceholder(getPenTypeIcon(pen.type))
+                    .setValue(pen.icon)
+                    .onChange(async (value) => {
+                        pen.icon = value.trim();
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshToolbar();
+                    }));
 
-        // Settings for Each Pen's Color, Size, and Smoothness
-        for (let i = 0; i < this.plugin.settings.numPens; i++) {
             // Pen Color
             new Setting(containerEl)
-                .setName(`Pen ${i + 1} Color`)
-                .setDesc(`Select color for Pen ${i + 1}.`)
+                .setName('Color')
+                .setDesc('Select the color of the pen.')
                 .addColorPicker(colorPicker => colorPicker
-                    .setValue(this.plugin.settings.penColors[i])
+                    .setValue(pen.color)
                     .onChange(async (value) => {
-                        this.plugin.settings.penColors[i] = value;
+                        pen.color = value;
                         await this.plugin.saveSettings();
                         this.plugin.refreshToolbar();
                     }));
 
             // Pen Size
             new Setting(containerEl)
-                .setName(`Pen ${i + 1} Size`)
-                .setDesc(`Adjust size for Pen ${i + 1}.`)
+                .setName('Size')
+                .setDesc('Adjust the size of the pen.')
                 .addSlider(slider => slider
                     .setLimits(1, 50, 1)
-                    .setValue(this.plugin.settings.penSizes[i])
+                    .setValue(pen.size)
                     .setDynamicTooltip()
                     .onChange(async (value) => {
-                        this.plugin.settings.penSizes[i] = value;
+                        pen.size = value;
                         await this.plugin.saveSettings();
                         this.plugin.updateDrawingCanvases();
                     }));
 
             // Pen Smoothness
             new Setting(containerEl)
-                .setName(`Pen ${i + 1} Smoothness`)
-                .setDesc(`Adjust smoothness for Pen ${i + 1}.`)
+                .setName('Smoothness')
+                .setDesc('Adjust the smoothness of the pen.')
                 .addSlider(slider => slider
                     .setLimits(0, 1, 0.01)
-                    .setValue(this.plugin.settings.penSmoothness[i])
+                    .setValue(pen.smoothness)
                     .setDynamicTooltip()
                     .onChange(async (value) => {
-                        this.plugin.settings.penSmoothness[i] = value;
+                        pen.smoothness = value;
                         await this.plugin.saveSettings();
                         this.plugin.updateDrawingCanvases();
                     }));
 
             // Pen Opacity
             new Setting(containerEl)
-                .setName(`Pen ${i + 1} Opacity`)
-                .setDesc(`Adjust opacity for Pen ${i + 1}.`)
+                .setName('Opacity')
+                .setDesc('Adjust the opacity of the pen.')
                 .addSlider(slider => slider
                     .setLimits(0, 1, 0.01)
-                    .setValue(this.plugin.settings.penOpacities[i])
+                    .setValue(pen.opacity)
                     .setDynamicTooltip()
                     .onChange(async (value) => {
-                        this.plugin.settings.penOpacities[i] = value;
+                        pen.opacity = value;
                         await this.plugin.saveSettings();
                         this.plugin.updateDrawingCanvases();
                     }));
-        }
+        });
+
+        // Settings for adding pens and sharing pen sets
+        new Setting(containerEl)
+            .setName('Pen library')
+            .setDesc('Add a pen, or share pen sets as JSON.')
+            .addButton(button => button
+                .setButtonText('Add pen')
+                .onClick(() => this.updatePens(() => pens.push({ ...DEFAULT_PEN, id: createPenId(), name: `Pen ${pens.length + 1}` }))))
+            .addButton(button => button
+                .setButtonText('Import')
+                .onClick(() => new ImportPensModal(this.app, this.plugin, () => this.display()).open()))
+            .addButton(button => button
+                .setButtonText('Export')
+                .onClick(async () => {
+                    await navigator.clipboard.writeText(serializePens(pens));
+                    new Notice(`Copied ${pens.length} pen(s) to the clipboard.`);
+                }));
+
+        // Settings for the eraser
+        new Setting(containerEl)
+            .setName('Eraser Mode')
+            .setDesc('Erase whole strokes, or only the parts of strokes touched by the eraser.')
+            .addDropdown(dropdown => dropdown
+                .addOption('stroke', 'Whole stroke')
+                .addOption('partial', 'Partial')
+                .setValue(this.plugin.settings.eraserMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.eraserMode = value as EraserMode;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshToolbar();
+                }));
+
+        new Setting(containerEl)
+            .setName('Eraser Size')
+            .setDesc('Adjust the diameter of the eraser.')
+            .addSlider(slider => slider
+                .setLimits(1, 50, 1)
+                .setValue(this.plugin.settings.eraserSize)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.eraserSize = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshToolbar();
+                }));
+
+        // Settings for pressure-sensitive strokes
+        new Setting(containerEl)
+            .setName('Pressure-sensitive strokes')
+            .setDesc('Vary the stroke width with pen pressure and tilt.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.usePressure)
+                .onChange(async (value) => {
+                    this.plugin.settings.usePressure = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Simulate pressure from speed')
+            .setDesc('For mouse and touch input, draw thinner lines when moving faster.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.simulatePressure)
+                .onChange(async (value) => {
+                    this.plugin.settings.simulatePressure = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for shape recognition
+        new Setting(containerEl)
+            .setName('Snap to shape')
+            .setDesc('Hold the pen still at the end of a freehand stroke to turn it into a line, arrow, rectangle or ellipse.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.snapToShape)
+                .onChange(async (value) => {
+                    this.plugin.settings.snapToShape = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for stroke simplification
+        new Setting(containerEl)
+            .setName('Stroke simplification')
+            .setDesc('Drop points of finished strokes that change their shape by less than this many pixels. Set to 0 to keep every point.')
+            .addSlider(slider => slider
+                .setLimits(0, 3, 0.1)
+                .setValue(this.plugin.settings.simplifyTolerance)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.simplifyTolerance = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for automatic cleanup of orphaned drawings
+        new Setting(containerEl)
+            .setName('Clean up orphaned drawings on startup')
+            .setDesc('Automatically delete stored drawings whose node or canvas no longer exists.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.cleanupOrphansOnLoad)
+                .onChange(async (value) => {
+                    this.plugin.settings.cleanupOrphansOnLoad = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for keeping the drawings of nodes made non-drawable
+        new Setting(containerEl)
+            .setName('Archive removed drawings')
+            .setDesc('Keep the strokes of nodes made non-drawable, so they come back when the node is made drawable again.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.archiveRemovedDrawings)
+                .onChange(async (value) => {
+                    this.plugin.settings.archiveRemovedDrawings = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Setting for showing annotations outside the canvas
+        new Setting(containerEl)
+            .setName('Show annotations in notes')
+            .setDesc('Show the ink drawn on a note\'s canvas node when the note is opened in reading view or embedded.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showAnnotationsInNotes)
+                .onChange(async (value) => {
+                    await this.plugin.setAnnotationsVisible(value);
+                }));
     }
 }
 
-export default class CanvasDrawingNodePlugin extends Plugin {
-    settings: CanvasDrawingNodePluginSettings;
-    selectedTool: 'eraser' | number | null = null; // 'eraser' or pen index
-    drawingCanvases: Map<HTMLCanvasElement, DrawingCanvas> = new Map();
+// Modal taking a pasted pen set and adding it to the pen library or replacing the library with it
+class ImportPensModal extends Modal {
+    plugin: CanvasDrawingNodePlugin;
+    onImport: () => void;
 
-    async onload() {
-        console.log('Loading Canvas Drawing Node plugin');
+    constructor(app: App, plugin: CanvasDrawingNodePlugin, onImport: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.onImport = onImport;
+    }
 
-        // Load or initialize settings
-        await this.loadSettings();
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Import pens' });
+        contentEl.createEl('p', { text: 'Paste a pen set exported from the plugin settings.' });
+
+        let json = '';
+        new Setting(contentEl)
+            .addTextArea(textArea => textArea
+                .setPlaceholder('{ "version": 1, "pens": [...] }')
+                .onChange((value) => {
+                    json = value;
+                }));
 
-        // Add settings tab
-        this.addSettingTab(new CanvasDrawingNodePluginSettingsTab(this.app, this));
+        const importPens = async (replace: boolean) => {
+            let pens: Pen[];
+            try {
+                pens = parsePens(json);
+            } catch (error) {
+                new Notice(`Failed to import pens: ${error instanceof Error ? error.message : error}`);
+                return;
+            }
+            if (replace) {
+                this.plugin.forgetPens(this.plugin.settings.pens.map((pen) => pen.id));
+            }
+            this.plugin.settings.pens = replace ? pens : [...this.plugin.settings.pens, ...pens];
+            await this.plugin.saveSettings();
+            this.plugin.refreshToolbar();
+            this.close();
+            this.onImport();
+            new Notice(`Imported ${pens.length} pen(s).`);
+        };
 
-        // Add a command to make selected node(s) drawable
-        this.addCommand({
-            id: 'make-node-drawable',
-            name: 'Make Selected Node Drawable',
-            checkCallback: (checking: boolean) => {
-                const canvasView = this.getActiveCanvasView();
-                if (canvasView) {
-                    if (!checking) {
-                        this.makeSelectedNodesDrawable(canvasView);
-                    }
-                    return true;
-                }
-                return false;
-            },
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Replace pens')
+                .setWarning()
+                .onClick(() => importPens(true)))
+            .addButton(button => button
+                .setButtonText('Add pens')
+                .setCta()
+                .onClick(() => importPens(false)));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Modal listing orphaned drawings and asking for confirmation before deleting them
+class OrphanedDrawingsModal extends Modal {
+    plugin: CanvasDrawingNodePlugin;
+    orphans: OrphanedDrawing[];
+
+    constructor(app: App, plugin: CanvasDrawingNodePlugin, orphans: OrphanedDrawing[]) {
+        super(app);
+        this.plugin = plugin;
+        this.orphans = orphans;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Clean up orphaned drawings' });
+
+        const totalStrokes = this.orphans.reduce((sum, orphan) => sum + orphan.strokeCount, 0);
+        const totalSize = this.orphans.reduce((sum, orphan) => sum + orphan.size, 0);
+        contentEl.createEl('p', {
+            text: `Found ${this.orphans.length} orphaned drawing(s) with ${totalStrokes} stroke(s), using ${formatByteSize(totalSize)}.`,
         });
 
-        // Process existing canvas views
-        this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
-            this.addDrawingControlsToCanvas(leaf);
-            this.initializeDrawableNodesInCanvas(leaf.view);
+        const list = contentEl.createEl('ul');
+        this.orphans.forEach((orphan) => {
+            const location = orphan.canvasPath === null
+                ? `Plugin settings, node ${orphan.nodeId}`
+                : orphan.nodeId === null
+                    ? `${orphan.canvasPath} (canvas no longer exists)`
+                    : `${orphan.canvasPath}, node ${orphan.nodeId}`;
+            list.createEl('li', {
+                text: `${location}: ${orphan.strokeCount} stroke(s), ${formatByteSize(orphan.size)}`,
+            });
         });
 
-        // Listen for layout changes to catch new canvas views
-        this.registerEvent(
-            this.app.workspace.on('layout-change', () => {
-                this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
-                    this.addDrawingControlsToCanvas(leaf);
-                    this.initializeDrawableNodesInCanvas(leaf.view);
-                });
-            })
-        );
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Delete')
+                .setWarning()
+                .onClick(async () => {
+                    this.close();
+                    await this.plugin.removeOrphanedDrawings(this.orphans);
+                    new Notice(`Deleted ${this.orphans.length} orphaned drawing(s).`);
+                }));
     }
 
-    async loadSettings() {
-        // Load existing settings or use default
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-        // Ensure strokesData and drawableNodes are initialized
-        if (!this.settings.strokesData) {
-            this.settings.strokesData = {};
-        }
-        if (!this.settings.drawableNodes) {
-            this.settings.drawableNodes = [];
-        }
+// Modal asking for the format, scale and placement of an exported drawing
+class ExportDrawingModal extends Modal {
+    plugin: CanvasDrawingNodePlugin;
+    drawingCanvas: DrawingCanvas;
+    node: CanvasNode;
 
-        // Ensure penColors, penSizes, penSmoothness, and penOpacities arrays match numPens
-        while (this.settings.penColors.length < this.settings.numPens) {
-            this.settings.penColors.push('#000000');
-            this.settings.penSizes.push(5);
-            this.settings.penSmoothness.push(0.5);
-            this.settings.penOpacities.push(1.0);
-        }
-        while (this.settings.penColors.length > this.settings.numPens) {
-            this.settings.penColors.pop();
-            this.settings.penSizes.pop();
-            this.settings.penSmoothness.pop();
-            this.settings.penOpacities.pop();
-        }
+    constructor(app: App, plugin: CanvasDrawingNodePlugin, drawingCanvas: DrawingCanvas, node: CanvasNode) {
+        super(app);
+        this.plugin = plugin;
+        this.drawingCanvas = drawingCanvas;
+        this.node = node;
     }
 
-    async saveSettings() {
-        // Save all settings including strokesData and drawableNodes
-        await this.saveData(this.settings);
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Export drawing' });
+
+        const options: DrawingExportOptions = { ...this.plugin.settings.exportOptions };
+
+        new Setting(contentEl)
+            .setName('Format')
+            .setDesc('SVG keeps the strokes as vector paths, PNG is a bitmap.')
+            .addDropdown(dropdown => dropdown
+                .addOption('svg', 'SVG')
+                .addOption('png', 'PNG')
+                .setValue(options.format)
+                .onChange((value) => {
+                    options.format = value as DrawingExportFormat;
+                    scaleSetting.settingEl.toggle(options.format === 'png');
+                }));
+
+        const scaleSetting = new Setting(contentEl)
+            .setName('Scale')
+            .setDesc('Pixels per node pixel in the PNG.')
+            .addSlider(slider => slider
+                .setLimits(1, 4, 0.5)
+                .setValue(options.scale)
+                .setDynamicTooltip()
+                .onChange((value) => {
+                    options.scale = value;
+                }));
+        scaleSetting.settingEl.toggle(options.format === 'png');
+
+        new Setting(contentEl)
+            .setName('Embed in canvas')
+            .setDesc('Add the exported file to the canvas as a file node next to this node.')
+            .addToggle(toggle => toggle
+                .setValue(options.embed)
+                .onChange((value) => {
+                    options.embed = value;
+                }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(async () => {
+                    this.close();
+                    this.plugin.settings.exportOptions = options;
+                    await this.plugin.saveSettings();
+                    await this.plugin.exportDrawing(this.drawingCanvas, this.node, options);
+                }));
     }
 
-    // Method to save strokes data for a specific node
-    async saveStrokes(nodeId: string, strokes: Stroke[]) {
-        this.settings.strokesData[nodeId] = strokes;
-        await this.saveSettings();
+    onClose() {
+        this.contentEl.empty();
     }
+}
 
-    // Method to save drawable nodes list
-    async saveDrawableNodes() {
-        await this.saveSettings();
+// Full-size view for sketching in a .draw file
+class DrawingFileView extends TextFileView {
+    plugin: CanvasDrawingNodePlugin;
+    surfaceEl: HTMLElement;
+    drawingCanvas: DrawingCanvas | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: CanvasDrawingNodePlugin) {
+        super(leaf);
+        this.plugin = plugin;
     }
 
-    // Method to refresh the toolbar when settings change
-    refreshToolbar() {
-        this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
-            this.addDrawingControlsToCanvas(leaf);
-        });
+    getViewType(): string {
+        return DRAWING_VIEW_TYPE;
     }
 
-    // Method to update all DrawingCanvas instances with new settings
-    updateDrawingCanvases() {
-        this.drawingCanvases.forEach((drawingCanvasInstance) => {
-            drawingCanvasInstance.redraw(); // Implement a redraw method if necessary
-        });
+    getIcon(): string {
+        return 'pencil';
     }
 
-    // Helper method to get the active canvas view
-    getActiveCanvasView(): any {
-        const canvasView = this.app.workspace.getActiveViewOfType(ItemView);
-        if (canvasView && canvasView.getViewType() === 'canvas') {
-            return canvasView;
+    async onOpen() {
+        this.contentEl.empty();
+        this.contentEl.addClass('drawing-view');
+
+        // The toolbar looks for .canvas-controls, like in a canvas view
+        this.contentEl.createDiv({ cls: 'canvas-controls drawing-view-controls' });
+        this.surfaceEl = this.contentEl.createDiv({ cls: 'drawing-view-surface' });
+        this.plugin.addDrawingControlsToCanvas(this.leaf);
+    }
+
+    async onClose() {
+        const path = this.file?.path;
+        if (path) {
+            await this.save(); // Saves requested for edits in embeds of the file wait for the view
+        }
+        this.clear();
+        this.contentEl.empty();
+        if (path) {
+            await this.plugin.saveQueue.flush(path);
         }
-        return null;
     }
 
-    // Method to make selected node(s) drawable and associate strokes data
-    makeSelectedNodesDrawable(canvasView: any) {
-        const canvas = canvasView.canvas;
-        const selectedNodes: any[] = Array.from(canvas.selection);
+    async onLoadFile(file: TFile) {
+        await super.onLoadFile(file);
+        this.plugin.addDrawingControlsToCanvas(this.leaf); // Restore the tool last used on this file
+    }
 
-        if (selectedNodes.length === 0) {
-            new Notice('No nodes selected.');
+    getViewData(): string {
+        return serializeDrawingFile(this.drawingCanvas ? this.drawingCanvas.strokes : []);
+    }
+
+    setViewData(data: string, clear: boolean) {
+        if (clear) {
+            this.clear();
+        }
+        if (!this.file) {
             return;
         }
 
-        selectedNodes.forEach((node: any) => {
-            const nodeElement = node.contentEl; // Access the DOM element directly using contentEl
-
-            if (nodeElement) {
-                const nodeId = node.id; // Assumed: Each node has a unique ID
-                if (!this.settings.drawableNodes.includes(nodeId)) {
-                    this.settings.drawableNodes.push(nodeId); // Mark node as drawable
-                }
-
-                // Retrieve existing strokes or initialize as empty array
-                const existingStrokes = this.settings.strokesData[nodeId] || [];
-                this.initializeDrawingCanvas(canvasView, node, nodeElement, nodeId, existingStrokes);
-            } else {
-                console.error(`Failed to retrieve the contentEl for node ID: ${node.id}`);
+        // Our own saves come back through here unchanged, so only redraw for edits made elsewhere
+        if (this.drawingCanvas) {
+            if (data !== this.getViewData()) {
+                this.drawingCanvas.strokes = parseDrawingFile(data);
+                this.drawingCanvas.redraw();
             }
-        });
-
-        this.saveDrawableNodes(); // Persist the updated drawableNodes list
-        canvas.requestSave();
+            return;
+        }
+        this.drawingCanvas = this.plugin.createDrawingFileCanvas(this.surfaceEl, this.file.path, parseDrawingFile(data));
     }
 
-    // Method to initialize drawing canvas with nodeId and existing strokes
-    initializeDrawingCanvas(
-        canvasView: any,
-        nodeData: any,
-        nodeElement: HTMLElement,
-        nodeId: string,
-        strokes: Stroke[]
-    ) {
-        // Prevent multiple canvases in the same node
-        if (nodeElement.querySelector('canvas.drawing-canvas')) {
-            return; // Canvas already initialized
+    clear() {
+        if (this.drawingCanvas) {
+            this.drawingCanvas.destroy();
+            this.drawingCanvas = null;
         }
+    }
+}
 
-        // Add relative positioning to the node element to ensure the canvas can be absolutely positioned within it
-        nodeElement.style.position = 'relative';
-
-        // Find the scrollable content element within the node
-        const contentElement = nodeElement.querySelector('.canvas-node-content') || nodeElement;
-        const scrollableElement = contentElement as HTMLElement;
+// Embed of a .draw file: editable inside canvas file nodes, a read-only image in notes
+class DrawingEmbed extends Component {
+    plugin: CanvasDrawingNodePlugin;
+    containerEl: HTMLElement;
+    file: TFile;
+    drawingCanvas: DrawingCanvas | null = null;
 
-        // Create the drawing canvas element
-        const drawingCanvas = document.createElement('canvas');
-        drawingCanvas.classList.add('drawing-canvas');
-        drawingCanvas.width = scrollableElement.scrollWidth;
-        drawingCanvas.height = scrollableElement.scrollHeight;
-        drawingCanvas.style.position = 'absolute'; // Position the canvas absolutely within the content
-        drawingCanvas.style.top = '0';
-        drawingCanvas.style.left = '0';
-        drawingCanvas.style.width = '100%';
-        drawingCanvas.style.height = '100%';
-        drawingCanvas.style.touchAction = 'none'; // Prevent touch scrolling while drawing
-        drawingCanvas.style.zIndex = '10'; // Ensure the canvas is on top of the text
+    constructor(plugin: CanvasDrawingNodePlugin, containerEl: HTMLElement, file: TFile) {
+        super();
+        this.plugin = plugin;
+        this.containerEl = containerEl;
+        this.file = file;
+    }
 
-        // Append the drawing canvas to the scrollable content element
-        scrollableElement.appendChild(drawingCanvas);
+    onload() {
+        // Show edits made to the drawing elsewhere, e.g. in its own view or in another embed
+        this.registerEvent(this.plugin.app.vault.on('modify', async (file) => {
+            if (file === this.file) {
+                this.render(await this.plugin.app.vault.cachedRead(this.file));
+            }
+        }));
+    }
 
-        // Pass nodeId and existing strokes to DrawingCanvas
-        const drawingCanvasInstance = new DrawingCanvas(this, drawingCanvas, nodeId, strokes);
-        this.drawingCanvases.set(drawingCanvas, drawingCanvasInstance);
+    // Called by Obsidian once the embed is attached
+    async loadFile() {
+        this.render(await this.plugin.app.vault.cachedRead(this.file));
     }
 
-    // Method to initialize drawable nodes within a canvas view
-    initializeDrawableNodesInCanvas(canvasView: any) {
-        if (canvasView.getViewType() !== 'canvas') {
+    // Method to show the contents of the drawing file
+    render(data: string) {
+        // Our own saves come back through here unchanged, so only redraw for edits made elsewhere
+        if (this.drawingCanvas) {
+            if (data !== serializeDrawingFile(this.drawingCanvas.strokes)) {
+                this.drawingCanvas.strokes = parseDrawingFile(data);
+                this.drawingCanvas.redraw();
+            }
             return;
         }
 
-        const canvas = canvasView.canvas;
-        const allNodes: any[] = Array.from(canvas.nodes);
-
-        allNodes.forEach((node: any) => {
-            const nodeId = node.id;
-            if (this.settings.drawableNodes.includes(nodeId)) {
-                const nodeElement = node.contentEl;
-                const existingStrokes = this.settings.strokesData[nodeId] || [];
-                this.initializeDrawingCanvas(canvasView, node, nodeElement, nodeId, existingStrokes);
-            }
-        });
-    }
+        const strokes = parseDrawingFile(data);
+        this.containerEl.empty();
+        this.containerEl.addClass('drawing-embed');
 
-    // Method to add drawing controls to the canvas toolbar
-    addDrawingControlsToCanvas(leaf: WorkspaceLeaf) {
-        const canvasView = leaf.view;
-        if (canvasView.getViewType() !== 'canvas') {
+        if (this.containerEl.closest('.canvas-node')) {
+            const surfaceEl = this.containerEl.createDiv({ cls: 'drawing-view-surface' });
+            this.drawingCanvas = this.plugin.createDrawingFileCanvas(surfaceEl, this.file.path, strokes);
             return;
         }
 
-        const container = canvasView.containerEl;
+        const image = createDrawingImage(strokes);
+        if (image) {
+            this.containerEl.appendChild(image);
+        } else {
+            this.containerEl.createDiv({ cls: 'drawing-embed-empty', text: 'Empty drawing' });
+        }
+    }
 
-        // Find the toolbar in the canvas view
-        const toolbar = container.querySelector('.canvas-controls');
+    onunload() {
+        if (this.drawingCanvas) {
+            this.drawingCanvas.destroy();
+            this.drawingCanvas = null;
+        }
+    }
+}
 
-        if (toolbar) {
-            // Remove existing drawing control group to refresh
+// Read-only overlay of the ink drawn on canvas nodes showing a note, added once to each rendered note
+class NoteAnnotationsChild extends MarkdownRenderChild {
+    plugin: CanvasDrawingNodePlugin;
+    sourcePath: string;
+    docId: string; // Rendered document the overlay belongs to
+    overlayEl: HTMLElement | null = null;
+
+    constructor(containerEl: HTMLElement, plugin: CanvasDrawingNodePlugin, sourcePath: string, docId: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.sourcePath = sourcePath;
+        this.docId = docId;
+    }
+
+    onload() {
+        // Sections are attached to the document after post-processing
+        window.setTimeout(() => this.render(), 0);
+    }
+
+    async render() {
+        const sizerEl = this.containerEl.closest('.markdown-preview-sizer');
+        if (!sizerEl || sizerEl.querySelector(':scope > .drawing-annotations')) {
+            return;
+        }
+
+        const annotations = await this.plugin.getNoteAnnotations(this.sourcePath);
+        if (annotations.length === 0 || !this.containerEl.isConnected || sizerEl.querySelector(':scope > .drawing-annotations')) {
+            return;
+        }
+
+        // Highlighters multiply onto the text like in the canvas, the rest of the ink is drawn on top; the
+        // overlay is positioned against the note, which only notes with annotations are made a container for
+        sizerEl.addClass('has-drawing-annotations');
+        this.overlayEl = sizerEl.createDiv({ cls: 'drawing-annotations' });
+        const origin = this.overlayEl.getBoundingClientRect();
+        annotations.forEach((nodeData) => {
+            // Ink that scales with its node follows the width of the content, which is the note's width here
+            const scale = nodeData.inkScaling ? sizerEl.clientWidth / nodeData.inkScaling.baseWidth : 1;
+            const strokeScale = isFinite(scale) && scale > 0 ? scale : 1;
+            const strokes = nodeData.textAnchoring
+                ? this.placeAnchoredStrokes(nodeData.strokes, sizerEl as HTMLElement, origin, strokeScale)
+                : nodeData.strokes;
+
+            const highlights = createDrawingImage(strokes.filter((stroke) => stroke.type === 'highlighter'));
+            const ink = createDrawingImage(strokes.filter((stroke) => stroke.type !== 'highlighter'));
+            [highlights, ink].forEach((image) => {
+                if (image) {
+                    image.style.transform = `scale(${strokeScale})`;
+                    this.overlayEl?.appendChild(image);
+                }
+            });
+            highlights?.classList.add('drawing-image-highlight');
+        });
+    }
+
+    // Method to move text-anchored strokes to where their text is in the rendered note, in stroke coordinates
+    placeAnchoredStrokes(strokes: Stroke[], sizerEl: HTMLElement, origin: DOMRect, scale: number): Stroke[] {
+        return strokes.map((stroke) => {
+            const rect = stroke.anchor ? locateTextAnchorRect(sizerEl, stroke.anchor) : null;
+            if (!stroke.anchor || !rect) {
+                return stroke; // Strokes whose text is gone stay where they were drawn, like in the canvas
+            }
+            const dx = (rect.left - origin.left) / scale - stroke.anchor.x;
+            const dy = (rect.top - origin.top) / scale - stroke.anchor.y;
+            return transformStroke(stroke, [1, 0, 0, 1, dx, dy], 1);
+        });
+    }
+
+    onunload() {
+        if (this.plugin.noteAnnotationChildren.get(this.docId) === this) {
+            this.plugin.noteAnnotationChildren.delete(this.docId);
+        }
+        if (this.overlayEl) {
+            this.overlayEl.parentElement?.removeClass('has-drawing-annotations');
+            this.overlayEl.remove();
+            this.overlayEl = null;
+        }
+    }
+}
+
+export default class CanvasDrawingNodePlugin extends Plugin {
+    settings: CanvasDrawingNodePluginSettings;
+    drawingCanvases: Map<HTMLCanvasElement, DrawingCanvas> = new Map();
+    leafRegistries: Map<WorkspaceLeaf, LeafDrawingRegistry> = new Map(); // Drawings and toolbar added to each view
+    activeDrawingCanvas: DrawingCanvas | null = null; // Drawing canvas that was last drawn on
+    histories: Map<string, DrawingHistory> = new Map(); // Undo history keyed by drawing key
+    store: CanvasDrawingStore;
+    saveQueue: SaveQueue = new SaveQueue(SAVE_DEBOUNCE_DELAY); // Pending writes of sidecar and .draw files
+    noteAnnotationIndex: Promise<Map<string, NoteAnnotationSource[]>> | null = null; // Built on first use
+    noteAnnotationChildren: Map<string, NoteAnnotationsChild> = new Map(); // Overlay of each rendered note by document id
+    // Writes the remembered tools once the toolbar stops changing, e.g. while dragging through the colour picker
+    requestToolStateSave = debounce(() => this.saveSettings(), SAVE_DEBOUNCE_DELAY, true);
+
+    async onload() {
+        // Load or initialize settings
+        await this.loadSettings();
+        this.store = new CanvasDrawingStore(this.app, this.saveQueue);
+
+        // Write pending drawing changes before Obsidian quits
+        this.registerEvent(
+            this.app.workspace.on('quit', (tasks) => {
+                tasks.add(async () => {
+                    await this.requestToolStateSave.run();
+                    await this.saveQueue.flushAll();
+                });
+            })
+        );
+
+        // Add settings tab
+        this.addSettingTab(new CanvasDrawingNodePluginSettingsTab(this.app, this));
+
+        // Open .draw files in the drawing view and render them when embedded
+        this.registerView(DRAWING_VIEW_TYPE, (leaf) => new DrawingFileView(leaf, this));
+        this.registerExtensions([DRAWING_FILE_EXTENSION], DRAWING_VIEW_TYPE);
+        this.registerDrawingEmbeds();
+
+        // Show the ink of canvas nodes on their notes in reading view and embeds
+        this.registerMarkdownPostProcessor((element: HTMLElement, context: MarkdownPostProcessorContext) => {
+            // Every section of a note is post-processed, but the overlay covers the whole note
+            if (!this.noteAnnotationChildren.has(context.docId)) {
+                const child = new NoteAnnotationsChild(element, this, context.sourcePath, context.docId);
+                this.noteAnnotationChildren.set(context.docId, child);
+                context.addChild(child);
+            }
+        });
+        document.body.toggleClass('drawing-annotations-hidden', !this.settings.showAnnotationsInNotes);
+        this.register(() => document.body.removeClass('drawing-annotations-hidden'));
+        this.addCommand({
+            id: 'toggle-annotations-in-notes',
+            name: 'Toggle annotations in notes',
+            callback: async () => {
+                await this.setAnnotationsVisible(!this.settings.showAnnotationsInNotes);
+                new Notice(`Annotations in notes ${this.settings.showAnnotationsInNotes ? 'shown' : 'hidden'}.`);
+            },
+        });
+
+        // Add commands to create drawing files, on the active canvas or on their own
+        this.addCommand({
+            id: 'new-drawing-node',
+            name: 'New drawing node',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.getActiveCanvasView();
+                if (canvasView && canvasView.file) {
+                    if (!checking) {
+                        this.createDrawingNode(canvasView);
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+        this.addCommand({
+            id: 'new-drawing',
+            name: 'New drawing',
+            callback: async () => {
+                const sourcePath = this.app.workspace.getActiveFile()?.path || '';
+                const file = await this.createDrawingFile(this.app.fileManager.getNewFileParent(sourcePath).path + '/Drawing.draw');
+                if (file) {
+                    await this.app.workspace.getLeaf(true).openFile(file);
+                }
+            },
+        });
+
+        // Add a command to make selected node(s) drawable
+        this.addCommand({
+            id: 'make-node-drawable',
+            name: 'Make Selected Node Drawable',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.getActiveCanvasView();
+                if (canvasView) {
+                    if (!checking) {
+                        this.makeSelectedNodesDrawable(canvasView);
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+
+        // Add commands to wipe the ink of selected nodes and to turn drawing off for them
+        this.addCommand({
+            id: 'clear-drawing',
+            name: 'Clear drawing on selected node(s)',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.getActiveCanvasView();
+                const selectedNodes = canvasView ? Array.from(canvasView.canvas.selection) : [];
+                const drawingCanvases = selectedNodes
+                    .map((node) => this.getDrawingCanvasForNode(node))
+                    .filter((drawingCanvas): drawingCanvas is DrawingCanvas => drawingCanvas !== null && drawingCanvas.strokes.length > 0);
+                if (drawingCanvases.length > 0) {
+                    if (!checking) {
+                        drawingCanvases.forEach((drawingCanvas) => drawingCanvas.clear());
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+        this.addCommand({
+            id: 'make-node-non-drawable',
+            name: 'Make Selected Node Non-Drawable',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.getActiveCanvasView();
+                const selectedNodes = canvasView ? Array.from(canvasView.canvas.selection) : [];
+                const drawableNodes = selectedNodes.filter((node) => this.getDrawingCanvasForNode(node) !== null);
+                if (canvasView?.file && drawableNodes.length > 0) {
+                    if (!checking) {
+                        this.makeNodesNonDrawable(canvasView.file.path, drawableNodes.map((node) => node.id));
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+        this.addCommand({
+            id: 'undo-make-node-non-drawable',
+            name: 'Undo making node(s) non-drawable',
+            checkCallback: (checking: boolean) => {
+                const canvasPath: string | undefined = this.getActiveCanvasView()?.file?.path;
+                if (canvasPath && this.store.cache.get(canvasPath)?.removed?.length) {
+                    if (!checking) {
+                        this.restoreRemovedDrawing(canvasPath);
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+
+        // Add commands to undo and redo changes to the drawing of the selected or last used node
+        this.addCommand({
+            id: 'undo-drawing',
+            name: 'Undo drawing',
+            checkCallback: (checking: boolean) => {
+                const drawingView = this.getActiveDrawingView();
+                const drawingCanvas = drawingView ? this.getTargetDrawingCanvas(drawingView) : null;
+                if (drawingCanvas && drawingCanvas.canUndo()) {
+                    if (!checking) {
+                        drawingCanvas.undo();
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+        this.addCommand({
+            id: 'redo-drawing',
+            name: 'Redo drawing',
+            checkCallback: (checking: boolean) => {
+                const drawingView = this.getActiveDrawingView();
+                const drawingCanvas = drawingView ? this.getTargetDrawingCanvas(drawingView) : null;
+                if (drawingCanvas && drawingCanvas.canRedo()) {
+                    if (!checking) {
+                        drawingCanvas.redo();
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+
+        // Add a command to toggle recognition of freehand shapes
+        this.addCommand({
+            id: 'toggle-snap-to-shape',
+            name: 'Toggle snap to shape',
+            callback: async () => {
+                this.settings.snapToShape = !this.settings.snapToShape;
+                await this.saveSettings();
+                new Notice(`Snap to shape ${this.settings.snapToShape ? 'enabled' : 'disabled'}.`);
+            },
+        });
+
+        // Add commands acting on the strokes picked with the selection tool
+        this.addCommand({
+            id: 'delete-selected-strokes',
+            name: 'Delete selected strokes',
+            checkCallback: (checking: boolean) => {
+                const drawingCanvas = this.getSelectionDrawingCanvas();
+                if (drawingCanvas) {
+                    if (!checking) {
+                        drawingCanvas.deleteSelection();
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+        this.addCommand({
+            id: 'duplicate-selected-strokes',
+            name: 'Duplicate selected strokes',
+            checkCallback: (checking: boolean) => {
+                const drawingCanvas = this.getSelectionDrawingCanvas();
+                if (drawingCanvas) {
+                    if (!checking) {
+                        drawingCanvas.duplicateSelection();
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+
+        // Add a command to export the drawing of the selected node as SVG or PNG
+        this.addCommand({
+            id: 'export-drawing',
+            name: 'Export selected node drawing',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.getActiveCanvasView();
+                const selectedNodes = canvasView ? Array.from(canvasView.canvas.selection) : [];
+                const drawingCanvas = selectedNodes.length === 1 ? this.getDrawingCanvasForNode(selectedNodes[0]) : null;
+                if (drawingCanvas) {
+                    if (!checking) {
+                        new ExportDrawingModal(this.app, this, drawingCanvas, selectedNodes[0]).open();
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+
+        // Offer the export in the context menu of drawable canvas nodes; the canvas event isn't in the typings
+        this.registerEvent(
+            (this.app.workspace as Events).on('canvas:node-menu', (...data: unknown[]) => {
+                const [menu, node] = data as [Menu, CanvasNode];
+                const drawingCanvas = this.getDrawingCanvasForNode(node);
+                if (!drawingCanvas) {
+                    return;
+                }
+                menu.addItem((item) => item
+                    .setTitle('Export drawing')
+                    .setIcon('image-down')
+                    .onClick(() => {
+                        new ExportDrawingModal(this.app, this, drawingCanvas, node).open();
+                    }));
+                menu.addItem((item) => item
+                    .setTitle('Clear drawing')
+                    .setIcon('eraser')
+                    .setDisabled(drawingCanvas.strokes.length === 0)
+                    .onClick(() => {
+                        drawingCanvas.clear();
+                    }));
+                menu.addItem((item) => item
+                    .setTitle('Make non-drawable')
+                    .setIcon('pencil-off')
+                    .onClick(() => {
+                        this.makeNodesNonDrawable(drawingCanvas.canvasPath, [drawingCanvas.nodeId]);
+                    }));
+                menu.addItem((item) => item
+                    .setTitle('Scale ink with node')
+                    .setIcon('scaling')
+                    .setChecked(drawingCanvas.inkScaling !== null)
+                    .onClick(() => {
+                        this.setInkScalesWithNode(drawingCanvas, drawingCanvas.inkScaling === null);
+                    }));
+                menu.addItem((item) => item
+                    .setTitle('Anchor ink to text')
+                    .setIcon('text-cursor')
+                    .setChecked(drawingCanvas.textAnchoring)
+                    .onClick(() => {
+                        this.setTextAnchoring(drawingCanvas, !drawingCanvas.textAnchoring);
+                    }));
+            })
+        );
+
+        // Add a command to toggle whether the ink of the selected nodes scales when the node is resized
+        this.addCommand({
+            id: 'toggle-ink-scales-with-node',
+            name: 'Toggle scaling ink with selected node(s)',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.getActiveCanvasView();
+                const selectedNodes = canvasView ? Array.from(canvasView.canvas.selection) : [];
+                const drawingCanvases = selectedNodes
+                    .map((node) => this.getDrawingCanvasForNode(node))
+                    .filter((drawingCanvas): drawingCanvas is DrawingCanvas => drawingCanvas !== null);
+                if (drawingCanvases.length > 0) {
+                    if (!checking) {
+                        // Follow the first node, so a mixed selection ends up in the same mode
+                        const scales = drawingCanvases[0].inkScaling === null;
+                        drawingCanvases.forEach((drawingCanvas) => this.setInkScalesWithNode(drawingCanvas, scales));
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+
+        // Add a command to toggle whether the ink of the selected nodes follows reflowed text
+        this.addCommand({
+            id: 'toggle-text-anchoring',
+            name: 'Toggle anchoring ink to text on selected node(s)',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.getActiveCanvasView();
+                const selectedNodes = canvasView ? Array.from(canvasView.canvas.selection) : [];
+                const drawingCanvases = selectedNodes
+                    .map((node) => this.getDrawingCanvasForNode(node))
+                    .filter((drawingCanvas): drawingCanvas is DrawingCanvas => drawingCanvas !== null);
+                if (drawingCanvases.length > 0) {
+                    if (!checking) {
+                        const enabled = !drawingCanvases[0].textAnchoring;
+                        drawingCanvases.forEach((drawingCanvas) => this.setTextAnchoring(drawingCanvas, enabled));
+                    }
+                    return true;
+                }
+                return false;
+            },
+        });
+
+        // Route Ctrl/Cmd+Z to the drawing history instead of the canvas while a drawing tool is active
+        this.registerDomEvent(document, 'keydown', (event: KeyboardEvent) => {
+            this.handleHistoryHotkeys(event);
+        }, { capture: true });
+
+        // Delete, duplicate and deselect strokes with the keyboard while the selection tool is active
+        this.registerDomEvent(document, 'keydown', (event: KeyboardEvent) => {
+            this.handleSelectionHotkeys(event);
+        }, { capture: true });
+
+        // Add a command to find and delete drawings whose node or canvas is gone
+        this.addCommand({
+            id: 'clean-up-orphaned-drawings',
+            name: 'Clean up orphaned drawings',
+            callback: async () => {
+                const orphans = await this.findOrphanedDrawings();
+                if (orphans.length === 0) {
+                    new Notice('No orphaned drawings found.');
+                    return;
+                }
+                new OrphanedDrawingsModal(this.app, this, orphans).open();
+            },
+        });
+
+        // Keep drawing files attached to their canvas when it is renamed, moved or deleted
+        this.registerEvent(
+            this.app.vault.on('rename', (file, oldPath) => {
+                this.invalidateNoteAnnotations(file);
+                this.handleFileRename(file, oldPath);
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('delete', (file) => {
+                this.invalidateNoteAnnotations(file);
+                this.handleFileDelete(file);
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                this.invalidateNoteAnnotations(file);
+            })
+        );
+
+        // Wait for the vault to be indexed so legacy drawings can be matched to their canvas files
+        this.app.workspace.onLayoutReady(async () => {
+            // Give copies of a canvas its drawings; registered here, since the vault reports every file as created on startup
+            this.registerEvent(
+                this.app.vault.on('create', (file) => {
+                    this.invalidateNoteAnnotations(file);
+                    this.handleFileCreate(file);
+                })
+            );
+
+            await this.migrateLegacyStrokes();
+            await this.pruneToolStates();
+
+            if (this.settings.cleanupOrphansOnLoad) {
+                const orphans = await this.findOrphanedDrawings();
+                if (orphans.length > 0) {
+                    await this.removeOrphanedDrawings(orphans);
+                    new Notice(`Deleted ${orphans.length} orphaned drawing(s).`);
+                }
+            }
+
+            // Process existing canvas views
+            this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
+                this.addDrawingControlsToCanvas(leaf);
+                this.initializeDrawableNodesInCanvas(leaf.view);
+            });
+
+            // Listen for layout changes to catch new canvas views and dispose the drawings of closed ones
+            this.registerEvent(
+                this.app.workspace.on('layout-change', () => {
+                    this.pruneLeafRegistries();
+                    this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
+                        this.addDrawingControlsToCanvas(leaf);
+                        this.initializeDrawableNodesInCanvas(leaf.view);
+                    });
+                })
+            );
+        });
+    }
+
+    async loadSettings() {
+        // Load existing settings or use default
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+        // Copy so editing pens and remembering tools doesn't write into the defaults
+        this.settings.pens = this.settings.pens.map((pen) => ({ ...pen }));
+        this.settings.toolStates = { ...this.settings.toolStates };
+
+        // Pens used to be kept in parallel arrays
+        if (data && !data.pens && Array.isArray(data.penColors)) {
+            this.migrateLegacyPens();
+            await this.saveSettings();
+        }
+    }
+
+    // Method to turn the legacy parallel pen arrays into pen objects
+    migrateLegacyPens() {
+        const settings = this.settings;
+        const penColors = settings.penColors || [];
+        const numPens = Math.max(1, settings.numPens || penColors.length);
+        const pens: Pen[] = [];
+        for (let i = 0; i < numPens; i++) {
+            // The arrays could get out of sync, so every property falls back to the default on its own
+            pens.push({
+                ...DEFAULT_PEN,
+                id: createPenId(),
+                name: `Pen ${i + 1}`,
+                color: penColors[i] ?? DEFAULT_PEN.color,
+                size: settings.penSizes?.[i] ?? DEFAULT_PEN.size,
+                smoothness: settings.penSmoothness?.[i] ?? DEFAULT_PEN.smoothness,
+                opacity: settings.penOpacities?.[i] ?? DEFAULT_PEN.opacity,
+                type: settings.penTypes?.[i] ?? DEFAULT_PEN.type,
+            });
+        }
+        settings.pens = pens;
+
+        // Tools and toolbar changes remembered per file referred to pens by index
+        Object.values(settings.toolStates).forEach((state) => {
+            const legacyTool: unknown = state.tool;
+            if (typeof legacyTool === 'number') {
+                const selectedPen = pens[legacyTool];
+                state.tool = selectedPen ? 'pen' : null;
+                state.penId = selectedPen ? selectedPen.id : null;
+            }
+
+            const penOverrides: ToolState['penOverrides'] = {};
+            Object.entries(state.penOverrides).forEach(([key, override]) => {
+                const pen = pens[Number(key)];
+                penOverrides[pen ? pen.id : key] = override;
+            });
+            state.penOverrides = penOverrides;
+        });
+
+        delete settings.numPens;
+        delete settings.penColors;
+        delete settings.penSizes;
+        delete settings.penSmoothness;
+        delete settings.penOpacities;
+        delete settings.penTypes;
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
+
+    // Method to save strokes data for a specific node into its canvas' drawing file
+    async saveStrokes(canvasPath: string, nodeId: string, strokes: Stroke[]) {
+        if (isDrawingFilePath(canvasPath)) {
+            await this.saveDrawingFile(canvasPath, strokes);
+        } else {
+            await this.store.setStrokes(canvasPath, nodeId, strokes, this.histories.get(getDrawingKey(canvasPath, nodeId)));
+        }
+
+        // Keep other views of the same canvas node in sync
+        this.drawingCanvases.forEach((drawingCanvasInstance) => {
+            if (
+                drawingCanvasInstance.getDrawingKey() === getDrawingKey(canvasPath, nodeId) &&
+                drawingCanvasInstance.strokes !== strokes
+            ) {
+                drawingCanvasInstance.strokes = strokes;
+                drawingCanvasInstance.redraw();
+                drawingCanvasInstance.scheduleTextAnchorUpdate(); // The strokes were placed for the layout of the editing view
+            }
+        });
+    }
+
+    // Method to switch a node between ink that scales with the node and ink anchored to its top-left corner
+    async setInkScalesWithNode(drawingCanvas: DrawingCanvas, scales: boolean) {
+        if ((drawingCanvas.inkScaling !== null) === scales) {
+            return;
+        }
+
+        let inkScaling: InkScaling | null = null;
+        if (scales) {
+            // Start scaling from the current size so the ink doesn't move
+            inkScaling = { baseWidth: drawingCanvas.cssWidth, baseHeight: drawingCanvas.cssHeight };
+        } else {
+            // Keep the ink where it is by baking the current scale into the strokes
+            const scale = drawingCanvas.viewTransform.scale;
+            if (scale !== 1) {
+                drawingCanvas.commitStrokes(drawingCanvas.strokes.map((stroke) => transformStroke(stroke, [scale, 0, 0, scale, 0, 0], scale)));
+            }
+        }
+
+        await this.store.setInkScaling(drawingCanvas.canvasPath, drawingCanvas.nodeId, inkScaling);
+        this.drawingCanvases.forEach((drawingCanvasInstance) => {
+            if (drawingCanvasInstance.getDrawingKey() === drawingCanvas.getDrawingKey()) {
+                drawingCanvasInstance.setInkScaling(inkScaling);
+            }
+        });
+    }
+
+    // Method to switch a node between ink that follows the text it was drawn on and ink at fixed positions
+    async setTextAnchoring(drawingCanvas: DrawingCanvas, enabled: boolean) {
+        if (drawingCanvas.textAnchoring === enabled) {
+            return;
+        }
+
+        await this.store.setTextAnchoring(drawingCanvas.canvasPath, drawingCanvas.nodeId, enabled);
+        this.drawingCanvases.forEach((drawingCanvasInstance) => {
+            if (drawingCanvasInstance.getDrawingKey() === drawingCanvas.getDrawingKey()) {
+                drawingCanvasInstance.setTextAnchoring(enabled);
+            }
+        });
+
+        // Attach the existing strokes to the text they are on now, or drop their anchors
+        const strokes = enabled
+            ? drawingCanvas.strokes.map((stroke) => drawingCanvas.anchorStrokeToText(stroke))
+            : drawingCanvas.strokes.map((stroke) => {
+                const { anchor, ...unanchored } = stroke;
+                return anchor ? unanchored : stroke;
+            });
+        drawingCanvas.selectedStrokes = [];
+        drawingCanvas.strokes = strokes;
+        drawingCanvas.redraw();
+        await this.saveStrokes(drawingCanvas.canvasPath, drawingCanvas.nodeId, strokes);
+    }
+
+    // Method to show or hide the annotations rendered over notes
+    async setAnnotationsVisible(visible: boolean) {
+        this.settings.showAnnotationsInNotes = visible;
+        await this.saveSettings();
+        document.body.toggleClass('drawing-annotations-hidden', !visible);
+    }
+
+    // Method to collect the strokes of every drawable canvas file node that shows the given note
+    async getNoteAnnotations(notePath: string): Promise<NodeDrawingData[]> {
+        if (!this.noteAnnotationIndex) {
+            this.noteAnnotationIndex = this.buildNoteAnnotationIndex();
+        }
+        const sources = (await this.noteAnnotationIndex).get(notePath) || [];
+
+        // The drawings themselves come from the store, so they are always the latest
+        const annotations: NodeDrawingData[] = [];
+        for (const source of sources) {
+            const nodeData = (await this.store.load(source.canvasPath)).nodes[source.nodeId];
+            if (nodeData && !nodeData.archived && nodeData.strokes.length > 0) {
+                annotations.push(nodeData);
+            }
+        }
+        return annotations;
+    }
+
+    // Method to map the path of each note to the canvas file nodes showing it
+    async buildNoteAnnotationIndex(): Promise<Map<string, NoteAnnotationSource[]>> {
+        const index = new Map<string, NoteAnnotationSource[]>();
+        const canvasFiles = this.app.vault.getFiles().filter((file) => file.extension === 'canvas');
+        for (const canvasFile of canvasFiles) {
+            (await this.store.readCanvasNodes(canvasFile)).forEach((node) => {
+                if (node.type === 'file' && node.file) {
+                    index.set(node.file, [...(index.get(node.file) || []), { canvasPath: canvasFile.path, nodeId: node.id }]);
+                }
+            });
+        }
+        return index;
+    }
+
+    // Method to rebuild the note annotation index on next use after a canvas file or folder changed
+    invalidateNoteAnnotations(file: TAbstractFile) {
+        if (file instanceof TFolder || (file instanceof TFile && file.extension === 'canvas')) {
+            this.noteAnnotationIndex = null;
+        }
+    }
+
+    // Method to queue writing the strokes of a standalone drawing file, through its view when it is open
+    async saveDrawingFile(path: string, strokes: Stroke[]) {
+        const view = this.app.workspace.getLeavesOfType(DRAWING_VIEW_TYPE)
+            .map((leaf) => leaf.view)
+            .find((leafView): leafView is DrawingFileView => leafView instanceof DrawingFileView && leafView.file?.path === path);
+        if (view?.drawingCanvas) {
+            // The view saves the strokes of its own drawing canvas, which is kept in sync with the edited one
+            view.requestSave();
+            return;
+        }
+
+        // The file object follows renames that happen before the write
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            this.saveQueue.schedule(path, () => this.app.vault.modify(file, serializeDrawingFile(strokes)));
+        }
+    }
+
+    // Method to create an empty drawing file at the first free path based on the given one
+    async createDrawingFile(path: string): Promise<TFile | null> {
+        const extension = '.' + DRAWING_FILE_EXTENSION;
+        const basePath = normalizePath(path).slice(0, -extension.length);
+        let availablePath = basePath + extension;
+        for (let i = 1; this.app.vault.getAbstractFileByPath(availablePath); i++) {
+            availablePath = `${basePath} ${i}${extension}`;
+        }
+
+        try {
+            return await this.app.vault.create(availablePath, serializeDrawingFile([]));
+        } catch (error) {
+            console.error('Failed to create drawing:', error);
+            new Notice(`Failed to create ${availablePath}.`);
+            return null;
+        }
+    }
+
+    // Method to add a new drawing file to the middle of the visible part of a canvas
+    async createDrawingNode(canvasView: CanvasView) {
+        const canvas = canvasView.canvas;
+        const canvasPath = canvasView.file?.path;
+        if (!canvasPath) {
+            return;
+        }
+        const path = await this.app.fileManager.getAvailablePathForAttachment('Drawing.' + DRAWING_FILE_EXTENSION, canvasPath);
+        const file = await this.createDrawingFile(path);
+        if (!file) {
+            return;
+        }
+
+        const center = canvas.posCenter();
+        const node = canvas.createFileNode({
+            file,
+            pos: { x: center.x - DRAWING_NODE_SIZE.width / 2, y: center.y - DRAWING_NODE_SIZE.height / 2 },
+            size: { ...DRAWING_NODE_SIZE },
+            save: true,
+        });
+        canvas.deselectAll();
+        canvas.select(node);
+        canvas.requestSave();
+    }
+
+    // Method to create an editable drawing surface for a drawing file inside an element
+    createDrawingFileCanvas(parent: HTMLElement, path: string, strokes: Stroke[]): DrawingCanvas {
+        const drawingCanvas = document.createElement('canvas');
+        drawingCanvas.classList.add('drawing-canvas');
+        drawingCanvas.width = parent.clientWidth;
+        drawingCanvas.height = parent.clientHeight;
+        drawingCanvas.style.position = 'absolute';
+        drawingCanvas.style.top = '0';
+        drawingCanvas.style.left = '0';
+        drawingCanvas.style.width = '100%';
+        drawingCanvas.style.height = '100%';
+        drawingCanvas.style.touchAction = 'none'; // Prevent touch scrolling while drawing
+        parent.appendChild(drawingCanvas);
+
+        const drawingCanvasInstance = new DrawingCanvas(this, drawingCanvas, path, DRAWING_FILE_NODE_ID, strokes);
+        this.drawingCanvases.set(drawingCanvas, drawingCanvasInstance);
+        drawingCanvasInstance.setPixelRatio(Math.min(MAX_PIXEL_RATIO, window.devicePixelRatio));
+        this.updateDrawingCanvasPointerEvents();
+        return drawingCanvasInstance;
+    }
+
+    // Method to render .draw files embedded with ![[...]] and in canvas file nodes
+    registerDrawingEmbeds() {
+        // The embed registry isn't part of the public API, so it may be missing or change
+        const embedRegistry = (this.app as App & { embedRegistry?: EmbedRegistry }).embedRegistry;
+        if (embedRegistry && typeof embedRegistry.registerExtension === 'function') {
+            embedRegistry.registerExtension(DRAWING_FILE_EXTENSION, (context, file) => {
+                return new DrawingEmbed(this, context.containerEl, file);
+            });
+            this.register(() => embedRegistry.unregisterExtension(DRAWING_FILE_EXTENSION));
+            return;
+        }
+
+        // Without it, embeds in notes are filled in after the note is rendered; canvas file nodes show the file name
+        this.registerMarkdownPostProcessor((element, context) => {
+            element.querySelectorAll<HTMLElement>('.internal-embed[src]').forEach((embedEl) => {
+                const linkpath = getLinkpath(embedEl.getAttribute('src') || '');
+                const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, context.sourcePath);
+                if (file?.extension !== DRAWING_FILE_EXTENSION) {
+                    return;
+                }
+                const child = new MarkdownRenderChild(embedEl);
+                const embed = new DrawingEmbed(this, embedEl, file);
+                child.addChild(embed);
+                context.addChild(child);
+                embed.loadFile();
+            });
+        });
+    }
+
+    // Method to get the registry of the drawings and toolbar added to a view
+    getLeafRegistry(leaf: WorkspaceLeaf): LeafDrawingRegistry {
+        let registry = this.leafRegistries.get(leaf);
+        if (!registry) {
+            registry = new LeafDrawingRegistry(leaf);
+            this.leafRegistries.set(leaf, registry);
+        }
+        return registry;
+    }
+
+    // Method to find the registry of the view an element is shown in; drawing canvases keep the one they were added to
+    getLeafRegistryForElement(element: HTMLElement): LeafDrawingRegistry | null {
+        return Array.from(this.leafRegistries.values()).find((registry) => registry.contains(element)) || null;
+    }
+
+    // Method to select the tool of a view and remember it for the file shown in the view
+    async setTool(
+        registry: LeafDrawingRegistry,
+        tool: DrawingTool,
+        penId: string | null = registry.penId,
+        shape: ShapeKind | null = registry.shape
+    ) {
+        registry.tool = tool;
+        registry.penId = penId;
+        registry.shape = shape;
+        if (tool !== 'select') {
+            this.drawingCanvases.forEach((drawingCanvasInstance) => {
+                if (drawingCanvasInstance.getRegistry() === registry) {
+                    drawingCanvasInstance.clearSelection();
+                }
+            });
+        }
+        registry.updateToolbar();
+        this.updateDrawingCanvasPointerEvents();
+        this.rememberToolState(registry);
+    }
+
+    // Method to change a pen's properties in one view only, leaving the pen settings alone
+    async setPenOverride(registry: LeafDrawingRegistry, penId: string, override: Partial<PenProperties>) {
+        registry.penOverrides[penId] = { ...registry.penOverrides[penId], ...override };
+        this.rememberToolState(registry);
+        this.updateDrawingCanvases();
+    }
+
+    // Method to get the properties of a pen as used in a view
+    getPen(registry: LeafDrawingRegistry | null, pen: Pen): Pen {
+        return { ...pen, ...registry?.penOverrides[pen.id] };
+    }
+
+    // Method to get the pen selected in a view, null when another tool is selected
+    getSelectedPen(registry: LeafDrawingRegistry): Pen | null {
+        const pen = registry.tool === 'pen' ? this.settings.pens.find((settingsPen) => settingsPen.id === registry.penId) : undefined;
+        return pen ? this.getPen(registry, pen) : null;
+    }
+
+    // Method to forget deleted pens in open views and in the tool states remembered per file
+    forgetPens(penIds: string[]) {
+        const toolStates = [
+            ...Object.values(this.settings.toolStates),
+            ...Array.from(this.leafRegistries.values()),
+        ];
+        toolStates.forEach((state) => {
+            penIds.forEach((penId) => delete state.penOverrides[penId]);
+            if (state.penId !== null && penIds.includes(state.penId)) {
+                state.tool = null;
+                state.penId = null;
+            }
+        });
+    }
+
+    // Method to save the tool state of a view as the last used one of its file
+    rememberToolState(registry: LeafDrawingRegistry) {
+        if (registry.filePath) {
+            this.settings.toolStates[registry.filePath] = registry.getToolState();
+            this.requestToolStateSave();
+        }
+    }
+
+    // Method to dispose everything added to views that have been closed and the drawings of nodes that are gone
+    pruneLeafRegistries() {
+        const openLeaves = new Set([
+            ...this.app.workspace.getLeavesOfType('canvas'),
+            ...this.app.workspace.getLeavesOfType(DRAWING_VIEW_TYPE),
+        ]);
+        this.leafRegistries.forEach((registry, leaf) => {
+            if (openLeaves.has(leaf)) {
+                registry.prune();
+            } else {
+                // Write what was drawn in the closed view right away instead of waiting for the debounce
+                const paths = new Set(Array.from(registry.drawingCanvases).map((drawingCanvas) => drawingCanvas.canvasPath));
+                registry.dispose();
+                this.leafRegistries.delete(leaf);
+                paths.forEach((path) => this.saveQueue.flush(path));
+            }
+        });
+    }
+
+    // Method to get the undo history of a drawable node, shared by all views of that node
+    getHistory(canvasPath: string, nodeId: string): DrawingHistory {
+        const drawingKey = getDrawingKey(canvasPath, nodeId);
+        let history = this.histories.get(drawingKey);
+        if (!history) {
+            // Canvas nodes keep their history with their drawing, so it is saved along with it
+            history = this.store.getHistory(canvasPath, nodeId) || { undoStack: [], redoStack: [] };
+            this.histories.set(drawingKey, history);
+        }
+        return history;
+    }
+
+    // Method to move drawings along with a renamed or moved canvas file or folder
+    async handleFileRename(file: TAbstractFile, oldPath: string) {
+        if (file instanceof TFile && file.extension === 'canvas') {
+            await this.store.rename(oldPath, file.path);
+        } else if (file instanceof TFile && file.extension === DRAWING_FILE_EXTENSION) {
+            // Standalone drawings keep their strokes in the file itself
+        } else if (file instanceof TFolder) {
+            // Drawing files live next to their canvas, so they already moved with the folder
+            this.store.renameFolder(oldPath, file.path);
+        } else {
+            return;
+        }
+
+        this.drawingCanvases.forEach((drawingCanvasInstance) => {
+            if (drawingCanvasInstance.canvasPath === oldPath) {
+                drawingCanvasInstance.canvasPath = file.path;
+            } else if (drawingCanvasInstance.canvasPath.startsWith(oldPath + '/')) {
+                drawingCanvasInstance.canvasPath = file.path + drawingCanvasInstance.canvasPath.slice(oldPath.length);
+            }
+        });
+
+        await this.renameToolStates(oldPath, file.path);
+
+        // Undo histories are keyed by canvas path as well
+        Array.from(this.histories.entries()).forEach(([drawingKey, history]) => {
+            if (drawingKey.startsWith(oldPath + '#') || drawingKey.startsWith(oldPath + '/')) {
+                this.histories.delete(drawingKey);
+                this.histories.set(file.path + drawingKey.slice(oldPath.length), history);
+            }
+        });
+    }
+
+    // Method to copy the drawings of a canvas to a new canvas that is a copy of it
+    async handleFileCreate(file: TAbstractFile) {
+        if (!(file instanceof TFile) || file.extension !== 'canvas' || (await this.app.vault.adapter.exists(this.store.getSidecarPath(file.path)))) {
+            return;
+        }
+        const nodeIds = new Set((await this.store.readCanvasNodes(file)).map((node) => node.id));
+        if (nodeIds.size === 0) {
+            return;
+        }
+
+        // The source is the canvas with the most drawable nodes that all appear in the new canvas
+        let sourcePath: string | null = null;
+        let sourceMatches = 0;
+        const sidecarFiles = this.app.vault.getFiles().filter((sidecarFile) => sidecarFile.path.endsWith('.canvas' + DRAWING_SIDECAR_SUFFIX));
+        for (const sidecarFile of sidecarFiles) {
+            const canvasPath = sidecarFile.path.slice(0, -DRAWING_SIDECAR_SUFFIX.length);
+            if (canvasPath === file.path) {
+                continue;
+            }
+            const drawnNodeIds = Object.keys((await this.store.load(canvasPath)).nodes).filter((nodeId) => nodeId !== BACKGROUND_NODE_ID);
+            if (drawnNodeIds.length > sourceMatches && drawnNodeIds.every((nodeId) => nodeIds.has(nodeId))) {
+                sourcePath = canvasPath;
+                sourceMatches = drawnNodeIds.length;
+            }
+        }
+        if (!sourcePath) {
+            return;
+        }
+
+        await this.store.copy(sourcePath, file.path);
+        this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
+            if (asCanvasView(leaf.view)?.file?.path === file.path) {
+                this.initializeDrawableNodesInCanvas(leaf.view);
+            }
+        });
+    }
+
+    // Method to remove the drawings of a deleted canvas file or folder
+    async handleFileDelete(file: TAbstractFile) {
+        if (file instanceof TFile && file.extension === 'canvas') {
+            await this.store.delete(file.path);
+        } else if (file instanceof TFolder) {
+            this.store.forgetFolder(file.path);
+        }
+
+        // Forget the tools remembered for the deleted files
+        const toolStatePaths = Object.keys(this.settings.toolStates)
+            .filter((path) => path === file.path || path.startsWith(file.path + '/'));
+        if (toolStatePaths.length > 0) {
+            toolStatePaths.forEach((path) => delete this.settings.toolStates[path]);
+            await this.saveSettings();
+        }
+    }
+
+    // Method to forget the tools remembered for files that no longer exist, e.g. deleted while the plugin was off
+    async pruneToolStates() {
+        const missingPaths = Object.keys(this.settings.toolStates).filter((path) => !this.app.vault.getAbstractFileByPath(path));
+        if (missingPaths.length > 0) {
+            missingPaths.forEach((path) => delete this.settings.toolStates[path]);
+            await this.saveSettings();
+        }
+    }
+
+    // Method to move the tools remembered for a renamed file, or for the files in a renamed folder
+    async renameToolStates(oldPath: string, newPath: string) {
+        const toolStatePaths = Object.keys(this.settings.toolStates)
+            .filter((path) => path === oldPath || path.startsWith(oldPath + '/'));
+        if (toolStatePaths.length === 0) {
+            return;
+        }
+        toolStatePaths.forEach((path) => {
+            this.settings.toolStates[newPath + path.slice(oldPath.length)] = this.settings.toolStates[path];
+            delete this.settings.toolStates[path];
+        });
+        this.leafRegistries.forEach((registry) => {
+            if (registry.filePath && (registry.filePath === oldPath || registry.filePath.startsWith(oldPath + '/'))) {
+                registry.filePath = newPath + registry.filePath.slice(oldPath.length);
+            }
+        });
+        await this.saveSettings();
+    }
+
+    // Method to move drawings from the legacy strokesData/drawableNodes settings into per-canvas files
+    async migrateLegacyStrokes() {
+        const legacyStrokes = this.settings.strokesData || {};
+        const legacyNodeIds = new Set([...(this.settings.drawableNodes || []), ...Object.keys(legacyStrokes)]);
+        if (legacyNodeIds.size === 0) {
+            delete this.settings.strokesData;
+            delete this.settings.drawableNodes;
+            return;
+        }
+
+        const migratedNodeIds = new Set<string>();
+        const canvasFiles = this.app.vault.getFiles().filter((file) => file.extension === 'canvas');
+        for (const file of canvasFiles) {
+            const canvasNodes = await this.store.readCanvasNodes(file);
+            const matchingNodes = canvasNodes.filter((node) => legacyNodeIds.has(node.id));
+            if (matchingNodes.length === 0) {
+                continue;
+            }
+
+            const data = await this.store.load(file.path);
+            matchingNodes.forEach((node) => {
+                // Every canvas gets its own copy so that canvases sharing a node ID don't share strokes
+                const strokes: Stroke[] = JSON.parse(JSON.stringify(legacyStrokes[node.id] || []));
+                data.nodes[node.id] = { strokes };
+                migratedNodeIds.add(node.id);
+            });
+            await this.store.save(file.path);
+        }
+
+        // Keep entries that didn't match any canvas so that nothing is silently lost
+        migratedNodeIds.forEach((nodeId) => delete legacyStrokes[nodeId]);
+        const remainingNodeIds = (this.settings.drawableNodes || []).filter((nodeId) => !migratedNodeIds.has(nodeId));
+        if (Object.keys(legacyStrokes).length > 0 || remainingNodeIds.length > 0) {
+            this.settings.strokesData = legacyStrokes;
+            this.settings.drawableNodes = remainingNodeIds;
+            console.warn(`Canvas Drawing: ${legacyNodeIds.size - migratedNodeIds.size} legacy drawing(s) did not match any canvas node`);
+        } else {
+            delete this.settings.strokesData;
+            delete this.settings.drawableNodes;
+        }
+        await this.saveSettings();
+
+        if (migratedNodeIds.size > 0) {
+            new Notice(`Moved ${migratedNodeIds.size} drawing(s) into per-canvas drawing files.`);
+        }
+    }
+
+    // Method to list stored drawings that no longer belong to an existing canvas node
+    async findOrphanedDrawings(): Promise<OrphanedDrawing[]> {
+        const orphans: OrphanedDrawing[] = [];
+
+        // Nodes added to an open canvas may not have been written to its file yet
+        const openNodeKeys = new Set<string>();
+        this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
+            const canvasView = asCanvasView(leaf.view);
+            const canvasPath = canvasView?.file?.path;
+            if (canvasPath && canvasView.canvas) {
+                Array.from(canvasView.canvas.nodes.values()).forEach((node) => {
+                    openNodeKeys.add(getDrawingKey(canvasPath, node.id));
+                });
+            }
+        });
+
+        const sidecarFiles = this.app.vault.getFiles().filter((file) => file.path.endsWith('.canvas' + DRAWING_SIDECAR_SUFFIX));
+        for (const sidecarFile of sidecarFiles) {
+            const canvasPath = sidecarFile.path.slice(0, -DRAWING_SIDECAR_SUFFIX.length);
+            const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
+            const data = await this.store.load(canvasPath);
+
+            if (!(canvasFile instanceof TFile)) {
+                orphans.push({
+                    canvasPath,
+                    nodeId: null,
+                    strokeCount: Object.values(data.nodes).reduce((sum, nodeData) => sum + nodeData.strokes.length, 0),
+                    size: (await this.app.vault.adapter.stat(sidecarFile.path))?.size ?? sidecarFile.stat.size,
+                });
+                continue;
+            }
+
+            const canvasNodeIds = new Set((await this.store.readCanvasNodes(canvasFile)).map((node) => node.id));
+            Object.entries(data.nodes).forEach(([nodeId, nodeData]) => {
+                if (nodeId !== BACKGROUND_NODE_ID && !canvasNodeIds.has(nodeId) && !openNodeKeys.has(getDrawingKey(canvasPath, nodeId))) {
+                    orphans.push({
+                        canvasPath,
+                        nodeId,
+                        strokeCount: nodeData.strokes.length,
+                        // Its share of the sidecar file, with the strokes packed as they are written
+                        size: new TextEncoder().encode(JSON.stringify(encodeNodeDrawingData(nodeData))).length,
+                    });
+                }
+            });
+        }
+
+        // Legacy entries left over by the migration didn't match any canvas node
+        const legacyStrokes = this.settings.strokesData || {};
+        const legacyNodeIds = new Set([...(this.settings.drawableNodes || []), ...Object.keys(legacyStrokes)]);
+        legacyNodeIds.forEach((nodeId) => {
+            const strokes = legacyStrokes[nodeId] || [];
+            orphans.push({
+                canvasPath: null,
+                nodeId,
+                strokeCount: strokes.length,
+                size: JSON.stringify(strokes).length,
+            });
+        });
+
+        return orphans;
+    }
+
+    // Method to delete orphaned drawings found by findOrphanedDrawings
+    async removeOrphanedDrawings(orphans: OrphanedDrawing[]) {
+        const changedCanvasPaths = new Set<string>();
+        let settingsChanged = false;
+
+        for (const orphan of orphans) {
+            if (orphan.canvasPath === null) {
+                if (orphan.nodeId !== null) {
+                    delete this.settings.strokesData?.[orphan.nodeId];
+                    this.settings.drawableNodes = this.settings.drawableNodes?.filter((nodeId) => nodeId !== orphan.nodeId);
+                }
+                settingsChanged = true;
+            } else if (orphan.nodeId === null) {
+                await this.store.delete(orphan.canvasPath);
+            } else {
+                const data = await this.store.load(orphan.canvasPath);
+                delete data.nodes[orphan.nodeId];
+                changedCanvasPaths.add(orphan.canvasPath);
+            }
+        }
+
+        for (const canvasPath of changedCanvasPaths) {
+            await this.store.save(canvasPath);
+        }
+
+        if (settingsChanged) {
+            if (this.settings.strokesData && Object.keys(this.settings.strokesData).length === 0) {
+                delete this.settings.strokesData;
+            }
+            if (this.settings.drawableNodes && this.settings.drawableNodes.length === 0) {
+                delete this.settings.drawableNodes;
+            }
+            await this.saveSettings();
+        }
+    }
+
+    // Method to refresh the toolbar when settings change
+    refreshToolbar() {
+        [...this.app.workspace.getLeavesOfType('canvas'), ...this.app.workspace.getLeavesOfType(DRAWING_VIEW_TYPE)].forEach((leaf) => {
+            this.addDrawingControlsToCanvas(leaf);
+        });
+    }
+
+    // Method to update all DrawingCanvas instances with new settings
+    updateDrawingCanvases() {
+        this.drawingCanvases.forEach((drawingCanvasInstance) => {
+            drawingCanvasInstance.redraw(); // Implement a redraw method if necessary
+        });
+    }
+
+    // Helper method to get the active canvas view
+    getActiveCanvasView(): CanvasView | null {
+        const canvasView = this.app.workspace.getActiveViewOfType(ItemView);
+        return canvasView ? asCanvasView(canvasView) : null;
+    }
+
+    // Helper method to get the active canvas view or drawing file view
+    getActiveDrawingView(): CanvasView | DrawingFileView | null {
+        const view = this.app.workspace.getActiveViewOfType(ItemView);
+        if (view instanceof DrawingFileView) {
+            return view;
+        }
+        return view ? asCanvasView(view) : null;
+    }
+
+    // Method to find the drawing canvas that undo/redo should act on in a canvas or drawing file view
+    getTargetDrawingCanvas(drawingView: CanvasView | DrawingFileView): DrawingCanvas | null {
+        // A drawing file view shows a single drawing
+        if (drawingView instanceof DrawingFileView) {
+            return drawingView.drawingCanvas;
+        }
+
+        const canvasView = drawingView;
+        const viewDrawingCanvases = Array.from(this.drawingCanvases.values())
+            .filter((drawingCanvasInstance) => canvasView.containerEl.contains(drawingCanvasInstance.canvas));
+
+        // Prefer the single selected node, fall back to the node that was drawn on last
+        const selectedNodes = Array.from(canvasView.canvas.selection);
+        if (selectedNodes.length === 1) {
+            const selected = viewDrawingCanvases.find((drawingCanvasInstance) => drawingCanvasInstance.nodeId === selectedNodes[0].id);
+            if (selected) {
+                return selected;
+            }
+        }
+        if (this.activeDrawingCanvas && viewDrawingCanvases.includes(this.activeDrawingCanvas)) {
+            return this.activeDrawingCanvas;
+        }
+        return null;
+    }
+
+    // Method to find the drawing canvas shown in a canvas node, if the node is drawable
+    getDrawingCanvasForNode(node: CanvasNode): DrawingCanvas | null {
+        const nodeElement: HTMLElement | undefined = node.contentEl;
+        if (!nodeElement) {
+            return null;
+        }
+        return Array.from(this.drawingCanvases.values())
+            .find((drawingCanvasInstance) => drawingCanvasInstance.nodeId === node.id && nodeElement.contains(drawingCanvasInstance.canvas)) || null;
+    }
+
+    // Method to save a node's drawing as an SVG or PNG file and optionally place it on the canvas
+    async exportDrawing(drawingCanvas: DrawingCanvas, node: CanvasNode, options: DrawingExportOptions) {
+        const bounds = getStrokesBounds(drawingCanvas.strokes);
+        if (!bounds) {
+            new Notice('This node has no drawing to export.');
+            return;
+        }
+
+        const canvasFile = this.app.vault.getAbstractFileByPath(drawingCanvas.canvasPath);
+        const baseName = canvasFile instanceof TFile ? canvasFile.basename : 'Drawing';
+        const path = await this.app.fileManager.getAvailablePathForAttachment(
+            `${baseName}-${drawingCanvas.nodeId}.${options.format}`,
+            drawingCanvas.canvasPath
+        );
+
+        let file: TFile;
+        try {
+            if (options.format === 'svg') {
+                file = await this.app.vault.create(path, strokesToSvg(drawingCanvas.strokes, bounds));
+            } else {
+                const image = drawingCanvas.renderToImage(bounds, options.scale);
+                const blob = await new Promise<Blob | null>((resolve) => image.toBlob(resolve, 'image/png'));
+                if (!blob) {
+                    throw new Error('Failed to encode PNG');
+                }
+                file = await this.app.vault.createBinary(path, await blob.arrayBuffer());
+            }
+        } catch (error) {
+            console.error('Failed to export drawing:', error);
+            new Notice(`Failed to export drawing to ${path}.`);
+            return;
+        }
+
+        // Place the export to the right of the node, at the drawing's size
+        if (options.embed) {
+            const canvas = node.canvas;
+            canvas.createFileNode({
+                file,
+                pos: { x: node.x + node.width + 40, y: node.y },
+                size: { width: Math.ceil(bounds.maxX - bounds.minX), height: Math.ceil(bounds.maxY - bounds.minY) },
+                save: true,
+            });
+            canvas.requestSave();
+        }
+
+        new Notice(`Exported drawing to ${file.path}.`);
+    }
+
+    // Method to handle undo/redo hotkeys while a pen or the eraser is active
+    handleHistoryHotkeys(event: KeyboardEvent) {
+        const drawingView = this.getActiveDrawingView();
+        const registry = drawingView ? this.leafRegistries.get(drawingView.leaf) : undefined;
+        if (!drawingView || !registry || registry.tool === null) {
+            return;
+        }
+
+        const isModPressed = Platform.isMacOS ? event.metaKey : event.ctrlKey;
+        if (!isModPressed || event.altKey) {
+            return;
+        }
+        const key = event.key.toLowerCase();
+        const isUndo = key === 'z' && !event.shiftKey;
+        const isRedo = (key === 'z' && event.shiftKey) || (key === 'y' && !Platform.isMacOS);
+        if (!isUndo && !isRedo) {
+            return;
+        }
+
+        // Leave text editing alone
+        const target = event.target as HTMLElement | null;
+        if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+            return;
+        }
+
+        const drawingCanvas = this.getTargetDrawingCanvas(drawingView);
+        if (!drawingCanvas) {
+            return;
+        }
+
+        // Swallow the event even when there is nothing to undo, so the canvas doesn't undo node edits instead
+        event.preventDefault();
+        event.stopPropagation();
+        if (isUndo) {
+            drawingCanvas.undo();
+        } else {
+            drawingCanvas.redo();
+        }
+    }
+
+    // Method to find the drawing canvas in the active canvas or drawing file view that has selected strokes
+    getSelectionDrawingCanvas(): DrawingCanvas | null {
+        const drawingView = this.getActiveDrawingView();
+        const drawingCanvas = drawingView instanceof DrawingFileView ? drawingView.drawingCanvas : this.activeDrawingCanvas;
+        if (
+            !drawingView ||
+            !drawingCanvas ||
+            this.leafRegistries.get(drawingView.leaf)?.tool !== 'select' ||
+            drawingCanvas.selectedStrokes.length === 0 ||
+            !drawingView.containerEl.contains(drawingCanvas.canvas)
+        ) {
+            return null;
+        }
+        return drawingCanvas;
+    }
+
+    // Method to handle Delete, Ctrl/Cmd+D and Escape for the selected strokes
+    handleSelectionHotkeys(event: KeyboardEvent) {
+        const target = event.target as HTMLElement | null;
+        if (target && (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+            return;
+        }
+
+        const drawingCanvas = this.getSelectionDrawingCanvas();
+        if (!drawingCanvas) {
+            return;
+        }
+
+        const isModPressed = Platform.isMacOS ? event.metaKey : event.ctrlKey;
+        if (event.key === 'Delete' || event.key === 'Backspace') {
+            drawingCanvas.deleteSelection();
+        } else if (isModPressed && event.key.toLowerCase() === 'd') {
+            drawingCanvas.duplicateSelection();
+        } else if (event.key === 'Escape') {
+            drawingCanvas.clearSelection();
+        } else {
+            return;
+        }
+
+        // Keep the canvas from deleting or duplicating the selected nodes as well
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    // Method to make selected node(s) drawable and associate strokes data
+    async makeSelectedNodesDrawable(canvasView: CanvasView) {
+        const canvas = canvasView.canvas;
+        const selectedNodes = Array.from(canvas.selection);
+        const canvasPath = canvasView.file?.path;
+
+        if (selectedNodes.length === 0) {
+            new Notice('No nodes selected.');
+            return;
+        }
+        if (!canvasPath) {
+            new Notice('The canvas must be saved to a file before nodes can be made drawable.');
+            return;
+        }
+
+        const data = await this.store.load(canvasPath);
+        selectedNodes.forEach((node) => {
+            const nodeElement = node.contentEl; // Access the DOM element directly using contentEl
+
+            if (nodeElement) {
+                const nodeId = node.id; // Assumed: Each node has a unique ID within its canvas
+                if (!data.nodes[nodeId]) {
+                    data.nodes[nodeId] = { strokes: [] }; // Mark node as drawable
+                } else if (data.nodes[nodeId].archived) {
+                    delete data.nodes[nodeId].archived; // Bring back the strokes the node had before
+                }
+
+                const nodeData = data.nodes[nodeId];
+                this.initializeDrawingCanvas(
+                    canvasView, node, nodeElement, canvasPath, nodeId, nodeData.strokes, nodeData.inkScaling, nodeData.textAnchoring
+                );
+            } else {
+                console.error(`Failed to retrieve the contentEl for node ID: ${node.id}`);
+            }
+        });
+
+        await this.store.save(canvasPath); // Persist the updated drawable nodes
+        canvas.requestSave();
+    }
+
+    // Method to stop drawing on nodes, archiving or deleting their strokes; the change is kept with the
+    // canvas so it can be undone later
+    async makeNodesNonDrawable(canvasPath: string, nodeIds: string[]) {
+        const data = await this.store.load(canvasPath);
+        const removed: RemovedDrawing = { nodes: {} };
+        nodeIds.forEach((nodeId) => {
+            const nodeData = data.nodes[nodeId];
+            if (!nodeData || nodeData.archived) {
+                return;
+            }
+            removed.nodes[nodeId] = nodeData;
+            if (this.settings.archiveRemovedDrawings && nodeData.strokes.length > 0) {
+                data.nodes[nodeId] = { ...nodeData, archived: true };
+            } else {
+                delete data.nodes[nodeId];
+            }
+
+            // Tear down the drawing in every view of the canvas
+            const drawingKey = getDrawingKey(canvasPath, nodeId);
+            this.drawingCanvases.forEach((drawingCanvasInstance) => {
+                if (drawingCanvasInstance.getDrawingKey() === drawingKey) {
+                    drawingCanvasInstance.destroy();
+                }
+            });
+        });
+
+        const count = Object.keys(removed.nodes).length;
+        if (count === 0) {
+            return;
+        }
+        data.removed = [...(data.removed || []), removed].slice(-MAX_REMOVED_DRAWINGS);
+        await this.store.save(canvasPath);
+
+        new Notice(createFragment((fragment) => {
+            fragment.appendText(`Made ${count} node(s) non-drawable. `);
+            fragment.createEl('a', { text: 'Undo', href: '#' }, (link) => {
+                link.addEventListener('click', (event) => {
+                    event.preventDefault();
+                    this.restoreRemovedDrawing(canvasPath, removed);
+                });
+            });
+        }));
+    }
+
+    // Method to make nodes of a canvas drawable again with the strokes they had, undoing the given or the
+    // latest time they were made non-drawable
+    async restoreRemovedDrawing(canvasPath: string, removed?: RemovedDrawing) {
+        const data = await this.store.load(canvasPath);
+        const stack = data.removed || [];
+        const index = removed ? stack.indexOf(removed) : stack.length - 1;
+        if (index < 0) {
+            return; // Already undone
+        }
+        const [restored] = stack.splice(index, 1);
+
+        for (const [nodeId, restoredData] of Object.entries(restored.nodes)) {
+            const current = data.nodes[nodeId];
+            if (!current || current.archived || current.strokes.length === 0) {
+                data.nodes[nodeId] = restoredData;
+                continue;
+            }
+
+            // The node was made drawable again and drawn on since, so the removed strokes are added below the
+            // new ones; strokes it got back from its archive are already there
+            const currentStrokes = new Set(current.strokes.map((stroke) => JSON.stringify(stroke)));
+            const missingStrokes = restoredData.strokes.filter((stroke) => !currentStrokes.has(JSON.stringify(stroke)));
+            if (missingStrokes.length > 0) {
+                await this.saveStrokes(canvasPath, nodeId, [...missingStrokes, ...current.strokes]);
+            }
+        }
+        await this.store.save(canvasPath);
+
+        this.app.workspace.getLeavesOfType('canvas').forEach((leaf) => {
+            if (asCanvasView(leaf.view)?.file?.path === canvasPath) {
+                this.initializeDrawableNodesInCanvas(leaf.view);
+            }
+        });
+    }
+
+    // Method to initialize drawing canvas with nodeId and existing strokes
+    initializeDrawingCanvas(
+        canvasView: CanvasView,
+        nodeData: CanvasNode,
+        nodeElement: HTMLElement,
+        canvasPath: string,
+        nodeId: string,
+        strokes: Stroke[],
+        inkScaling: InkScaling | null = null,
+        textAnchoring = false
+    ) {
+        // Prevent multiple canvases in the same node
+        if (nodeElement.querySelector('canvas.drawing-canvas')) {
+            return; // Canvas already initialized
+        }
+
+        // Find the scrollable content element within the node; positioning it makes the canvas scroll with the content
+        const contentElement = nodeElement.querySelector('.canvas-node-content') || nodeElement;
+        const scrollableElement = contentElement as HTMLElement;
+        const originalPositions = [nodeElement.style.position, scrollableElement.style.position];
+
+        // Add relative positioning to the node element to ensure the canvas can be absolutely positioned within it
+        nodeElement.style.position = 'relative';
+        scrollableElement.style.position = 'relative';
+
+        // Create the drawing canvas element
+        const drawingCanvas = document.createElement('canvas');
+        drawingCanvas.classList.add('drawing-canvas');
+        drawingCanvas.width = scrollableElement.scrollWidth;
+        drawingCanvas.height = scrollableElement.scrollHeight;
+        drawingCanvas.style.position = 'absolute'; // Position the canvas absolutely within the content
+        drawingCanvas.style.top = '0';
+        drawingCanvas.style.left = '0';
+        drawingCanvas.style.width = '100%';
+        drawingCanvas.style.height = '100%';
+        drawingCanvas.style.touchAction = 'none'; // Prevent touch scrolling while drawing
+        drawingCanvas.style.zIndex = '10'; // Ensure the canvas is on top of the text
+
+        // Append the drawing canvas to the scrollable content element
+        scrollableElement.appendChild(drawingCanvas);
+
+        // Pass the owning canvas file, nodeId and existing strokes to DrawingCanvas
+        const drawingCanvasInstance = new DrawingCanvas(this, drawingCanvas, canvasPath, nodeId, strokes);
+        this.drawingCanvases.set(drawingCanvas, drawingCanvasInstance);
+        this.getLeafRegistry(canvasView.leaf).add(drawingCanvasInstance);
+        drawingCanvasInstance.cleanup.push(() => {
+            nodeElement.style.position = originalPositions[0];
+            scrollableElement.style.position = originalPositions[1];
+        });
+
+        // Re-attach the drawing when the node re-renders its content and drops the ink layer with it
+        const nodeEl: HTMLElement = nodeData.nodeEl || nodeElement;
+        const contentObserver = new MutationObserver(() => {
+            if (!drawingCanvas.isConnected && nodeEl.isConnected) {
+                drawingCanvasInstance.destroy();
+                this.initializeDrawableNodesInCanvas(canvasView, [nodeData]);
+            }
+        });
+        contentObserver.observe(nodeEl, { childList: true, subtree: true });
+        drawingCanvasInstance.cleanup.push(() => contentObserver.disconnect());
+        drawingCanvasInstance.coverScrollContent();
+        this.updateDrawingCanvasPointerEvents();
+        drawingCanvasInstance.setInkScaling(inkScaling);
+        drawingCanvasInstance.setTextAnchoring(textAnchoring);
+        drawingCanvasInstance.setPixelRatio(getCanvasPixelRatio(canvasView.canvas));
+    }
+
+    // Method to initialize drawable nodes within a canvas view, or only the given nodes of it
+    async initializeDrawableNodesInCanvas(view: View, nodes?: CanvasNode[]) {
+        const canvasView = asCanvasView(view);
+        const canvasPath = canvasView?.file?.path;
+        if (!canvasView || !canvasPath) {
+            return;
+        }
+        this.observeCanvasNodes(canvasView);
+
+        const data = await this.store.load(canvasPath);
+        const canvas = canvasView.canvas;
+        const drawableNodes = nodes
+            ? nodes.filter((node) => canvas.nodes.get(node.id) === node) // Skip nodes removed while loading
+            : Array.from(canvas.nodes.values());
+
+        drawableNodes.forEach((node) => {
+            const nodeId = node.id;
+            const nodeData = data.nodes[nodeId];
+            if (nodeData && !nodeData.archived && node.contentEl) {
+                const nodeElement = node.contentEl;
+                this.initializeDrawingCanvas(
+                    canvasView, node, nodeElement, canvasPath, nodeId, nodeData.strokes, nodeData.inkScaling, nodeData.textAnchoring
+                );
+            }
+        });
+
+        if (!nodes) {
+            this.initializeBackgroundLayer(canvasView, canvasPath, data.nodes[BACKGROUND_NODE_ID]?.strokes || []);
+        }
+    }
+
+    // Method to attach drawings to nodes the canvas mounts and to drop those of nodes it removes
+    observeCanvasNodes(canvasView: CanvasView) {
+        const registry = this.getLeafRegistry(canvasView.leaf);
+        const canvasEl: HTMLElement | undefined = canvasView.canvas?.canvasEl;
+        if (!canvasEl || registry.observedEl === canvasEl) {
+            return;
+        }
+        registry.observedEl = canvasEl;
+
+        // Nodes are mounted as children of the node container; several mutations usually arrive
+        // together, so they are handled once per frame
+        let syncFrame: number | null = null;
+        const mountedEls: Set<Node> = new Set();
+        let nodesRemoved = false;
+        const observer = new MutationObserver((mutations) => {
+            mutations.forEach((mutation) => {
+                mutation.addedNodes.forEach((node) => mountedEls.add(node));
+                nodesRemoved = nodesRemoved || mutation.removedNodes.length > 0;
+            });
+            if (syncFrame !== null || (mountedEls.size === 0 && !nodesRemoved)) {
+                return;
+            }
+            syncFrame = window.requestAnimationFrame(() => {
+                syncFrame = null;
+                if (nodesRemoved) {
+                    registry.prune();
+                }
+                const canvasNodes = Array.from(canvasView.canvas.nodes.values());
+                const mountedNodes = canvasNodes.filter((node) => mountedEls.has(node.nodeEl));
+                mountedEls.clear();
+                nodesRemoved = false;
+                if (mountedNodes.length > 0) {
+                    this.initializeDrawableNodesInCanvas(canvasView, mountedNodes);
+                }
+            });
+        });
+        observer.observe(canvasEl, { childList: true });
+        registry.cleanup.push(() => {
+            observer.disconnect();
+            if (syncFrame !== null) {
+                window.cancelAnimationFrame(syncFrame);
+            }
+            registry.observedEl = null;
+        });
+    }
+
+    // Method to add the ink layer covering the whole canvas, behind the nodes and following pan and zoom
+    initializeBackgroundLayer(canvasView: CanvasView, canvasPath: string, strokes: Stroke[]) {
+        const canvas = canvasView.canvas;
+        const canvasEl: HTMLElement | undefined = canvas.canvasEl;
+        const wrapperEl = canvasEl?.parentElement;
+        if (!canvasEl || !wrapperEl || wrapperEl.querySelector(':scope > canvas.drawing-background-canvas')) {
+            return;
+        }
+
+        const drawingCanvas = document.createElement('canvas');
+        drawingCanvas.classList.add('drawing-canvas', 'drawing-background-canvas');
+        drawingCanvas.width = wrapperEl.clientWidth;
+        drawingCanvas.height = wrapperEl.clientHeight;
+        drawingCanvas.style.position = 'absolute';
+        drawingCanvas.style.top = '0';
+        drawingCanvas.style.left = '0';
+        drawingCanvas.style.width = '100%';
+        drawingCanvas.style.height = '100%';
+        drawingCanvas.style.touchAction = 'none'; // Prevent touch scrolling while drawing
+
+        // Below the nodes, so drawing on a node still goes to the node
+        wrapperEl.insertBefore(drawingCanvas, canvasEl);
+
+        // Keep the canvas from panning or starting a selection box while drawing on the background
+        drawingCanvas.addEventListener('pointerdown', (event) => event.stopPropagation());
+
+        const drawingCanvasInstance = new DrawingCanvas(this, drawingCanvas, canvasPath, BACKGROUND_NODE_ID, strokes);
+        this.drawingCanvases.set(drawingCanvas, drawingCanvasInstance);
+        this.getLeafRegistry(canvasView.leaf).add(drawingCanvasInstance);
+        this.updateDrawingCanvasPointerEvents();
+
+        // Follow the canvas viewport, which is applied as a transform on the node container, and
+        // keep the node drawings of this view sharp at the current zoom
+        const syncViewport = () => {
+            drawingCanvasInstance.setViewTransform(getCanvasViewTransform(canvas, wrapperEl.clientWidth, wrapperEl.clientHeight));
+            drawingCanvasInstance.setPixelRatio(Math.min(MAX_PIXEL_RATIO, window.devicePixelRatio));
+            const nodePixelRatio = getCanvasPixelRatio(canvas);
+            this.drawingCanvases.forEach((nodeDrawingCanvas) => {
+                if (nodeDrawingCanvas !== drawingCanvasInstance && canvasEl.contains(nodeDrawingCanvas.canvas)) {
+                    nodeDrawingCanvas.setPixelRatio(nodePixelRatio);
+                }
+            });
+        };
+        const viewportObserver = new MutationObserver(syncViewport);
+        viewportObserver.observe(canvasEl, { attributes: true, attributeFilter: ['style'] });
+        const wrapperObserver = new ResizeObserver(syncViewport);
+        wrapperObserver.observe(wrapperEl);
+        drawingCanvasInstance.cleanup.push(() => viewportObserver.disconnect(), () => wrapperObserver.disconnect());
+        syncViewport();
+    }
+
+    // Method to add drawing controls to the canvas toolbar
+    addDrawingControlsToCanvas(leaf: WorkspaceLeaf) {
+        const canvasView = leaf.view;
+        if (canvasView.getViewType() !== 'canvas' && canvasView.getViewType() !== DRAWING_VIEW_TYPE) {
+            return;
+        }
+
+        const container = canvasView.containerEl;
+
+        // Pick up the tool last used on the file when the view shows a different file than before
+        const registry = this.getLeafRegistry(leaf);
+        const filePath = (canvasView instanceof FileView && canvasView.file?.path) || null;
+        if (registry.filePath !== filePath) {
+            registry.filePath = filePath;
+            registry.setToolState(filePath ? this.settings.toolStates[filePath] : undefined);
+        }
+        if (registry.tool === 'pen' && !this.getSelectedPen(registry)) {
+            registry.tool = null; // The pen has been removed in the settings
+            registry.penId = null;
+        }
+
+        // Find the toolbar in the canvas view
+        const toolbar = container.querySelector('.canvas-controls');
+
+        if (toolbar) {
+            // Remove existing drawing control group to refresh
             const existingGroup = toolbar.querySelector('.canvas-drawing-control-group');
             if (existingGroup) {
                 existingGroup.remove();
             }
 
-            // Create a new control group for the drawing controls
-            const controlGroup = document.createElement('div');
-            controlGroup.classList.add('canvas-control-group', 'canvas-drawing-control-group');
+            // Create a new control group for the drawing controls
+            const controlGroup = document.createElement('div');
+            controlGroup.classList.add('canvas-control-group', 'canvas-drawing-control-group');
+
+            // Text Button
+            const textControlItem = document.createElement('div');
+            textControlItem.classList.add('canvas-control-item');
+
+            const textButton = document.createElement('button');
+            textButton.type = 'button';
+            textButton.classList.add('clickable-icon', 'view-action');
+            setIcon(textButton, 'pencil'); // Use an appropriate icon
+
+            textButton.setAttribute('aria-label', 'Text Tool');
+            textButton.setAttribute('title', 'Text Tool');
+
+            // Handle text button click
+            textButton.addEventListener('click', (event) => {
+                event.stopPropagation(); // Prevent event bubbling
+
+                // Deselect any selected tool
+                this.setTool(registry, null);
+            });
+
+            textControlItem.appendChild(textButton);
+            controlGroup.appendChild(textControlItem);
+
+            // Create Pen Buttons
+            for (let i = 0; i < this.settings.pens.length; i++) {
+                const pen = this.getPen(registry, this.settings.pens[i]);
+                const penControlItem = document.createElement('div');
+                penControlItem.classList.add('canvas-control-item');
+
+                const penButton = document.createElement('button');
+                penButton.type = 'button';
+                penButton.classList.add('clickable-icon', 'view-action');
+                // Use the pen's own icon, or the icon of its type
+                setIcon(penButton, pen.icon || getPenTypeIcon(pen.type));
+
+                // Set the pen icon's color
+                penButton.style.color = pen.color;
+
+                penButton.setAttribute('aria-label', pen.name);
+                penButton.setAttribute('title', pen.name);
+
+                // Handle pen button click
+                penButton.addEventListener('click', async (event) => {
+                    event.stopPropagation(); // Prevent event bubbling
+
+                    // Select this pen
+                    this.setTool(registry, 'pen', pen.id);
+                });
+
+                penControlItem.appendChild(penButton);
+                controlGroup.appendChild(penControlItem);
+            }
+
+            // Eraser Button
+            const eraserControlItem = document.createElement('div');
+            eraserControlItem.classList.add('canvas-control-item');
+
+            const eraserButton = document.createElement('button');
+            eraserButton.type = 'button';
+            eraserButton.classList.add('clickable-icon', 'view-action');
+            setIcon(eraserButton, 'eraser'); // Use an eraser icon
+
+            eraserButton.setAttribute('aria-label', 'Eraser');
+            eraserButton.setAttribute('title', 'Eraser');
+
+            // Handle eraser button click
+            eraserButton.addEventListener('click', (event) => {
+                event.stopPropagation(); // Prevent event bubbling
+
+                // Select eraser
+                this.setTool(registry, 'eraser');
+            });
+
+            eraserControlItem.appendChild(eraserButton);
+            controlGroup.appendChild(eraserControlItem);
+
+            // Selection Button
+            const selectControlItem = document.createElement('div');
+            selectControlItem.classList.add('canvas-control-item');
+
+            const selectButton = document.createElement('button');
+            selectButton.type = 'button';
+            selectButton.classList.add('clickable-icon', 'view-action');
+            setIcon(selectButton, 'lasso'); // Use a lasso icon
+
+            selectButton.setAttribute('aria-label', 'Select Strokes');
+            selectButton.setAttribute('title', 'Select Strokes');
+
+            // Handle selection button click
+            selectButton.addEventListener('click', (event) => {
+                event.stopPropagation(); // Prevent event bubbling
+
+                // Select the selection tool
+                this.setTool(registry, 'select');
+            });
+
+            selectControlItem.appendChild(selectButton);
+            controlGroup.appendChild(selectControlItem);
+
+            // Shape Buttons
+            SHAPE_TOOLS.forEach((shapeTool) => {
+                const shapeControlItem = document.createElement('div');
+                shapeControlItem.classList.add('canvas-control-item');
+
+                const shapeButton = document.createElement('button');
+                shapeButton.type = 'button';
+                shapeButton.classList.add('clickable-icon', 'view-action');
+                setIcon(shapeButton, shapeTool.icon);
+
+                shapeButton.setAttribute('aria-label', shapeTool.name);
+                shapeButton.setAttribute('title', shapeTool.name);
+
+                // Handle shape button click
+                shapeButton.addEventListener('click', (event) => {
+                    event.stopPropagation(); // Prevent event bubbling
+
+                    // Toggle the shape; shapes are drawn with the selected pen, or the first pen
+                    this.setTool(
+                        registry,
+                        'pen',
+                        registry.tool === 'pen' ? registry.penId : this.settings.pens[0].id,
+                        registry.shape === shapeTool.shape ? null : shapeTool.shape
+                    );
+                });
+
+                shapeControlItem.appendChild(shapeButton);
+                controlGroup.appendChild(shapeControlItem);
+            });
+
+            // Add controls under the pens and eraser
+            const controlsContainer = document.createElement('div');
+            controlsContainer.classList.add('drawing-controls-container');
+            controlsContainer.style.marginTop = '10px'; // Add some spacing
+
+            // Color Picker Control
+            const colorControlItem = document.createElement('div');
+            colorControlItem.classList.add('control-item');
+
+            const colorLabel = document.createElement('label');
+            colorLabel.innerText = 'Color';
+            colorLabel.style.display = 'block';
+            colorLabel.style.fontSize = '12px';
+            colorLabel.style.marginBottom = '2px';
+            colorLabel.style.textAlign = 'center';
+
+            const colorPickerInput = document.createElement('input');
+            colorPickerInput.type = 'color';
+            colorPickerInput.style.width = '40px';
+            colorPickerInput.style.height = '25px';
+            colorPickerInput.style.padding = '0';
+            colorPickerInput.style.border = 'none';
+            colorPickerInput.style.cursor = 'pointer';
+            colorPickerInput.style.display = 'block';
+
+            colorControlItem.appendChild(colorLabel);
+            colorControlItem.appendChild(colorPickerInput);
+            controlsContainer.appendChild(colorControlItem);
+
+            // Pen Size Control
+            const sizeControlItem = document.createElement('div');
+            sizeControlItem.classList.add('control-item');
+
+            const sizeLabel = document.createElement('label');
+            sizeLabel.innerText = 'Size';
+            sizeLabel.style.display = 'block';
+            sizeLabel.style.fontSize = '12px';
+            sizeLabel.style.marginBottom = '2px';
+            sizeLabel.style.textAlign = 'center';
+
+            const sizeInput = document.createElement('input');
+            sizeInput.type = 'number';
+            sizeInput.min = '1';
+            sizeInput.max = '50';
+            sizeInput.step = '1';
+            sizeInput.style.width = '40px';
+            sizeInput.style.padding = '2px';
+            sizeInput.style.fontSize = '12px';
+            sizeInput.style.boxSizing = 'border-box';
+            sizeInput.style.display = 'block';
+
+            sizeControlItem.appendChild(sizeLabel);
+            sizeControlItem.appendChild(sizeInput);
+            controlsContainer.appendChild(sizeControlItem);
+
+            // Smoothness Control
+            const smoothnessControlItem = document.createElement('div');
+            smoothnessControlItem.classList.add('control-item');
+
+            const smoothnessLabel = document.createElement('label');
+            smoothnessLabel.innerText = 'Smooth';
+            smoothnessLabel.style.display = 'block';
+            smoothnessLabel.style.fontSize = '12px';
+            smoothnessLabel.style.marginBottom = '2px';
+            smoothnessLabel.style.textAlign = 'center';
+
+            const smoothnessInput = document.createElement('input');
+            smoothnessInput.type = 'number';
+            smoothnessInput.min = '0';
+            smoothnessInput.max = '1';
+            smoothnessInput.step = '0.01';
+            smoothnessInput.style.width = '40px';
+            smoothnessInput.style.padding = '2px';
+            smoothnessInput.style.fontSize = '12px';
+            smoothnessInput.style.boxSizing = 'border-box';
+            smoothnessInput.style.display = 'block';
+
+            smoothnessControlItem.appendChild(smoothnessLabel);
+            smoothnessControlItem.appendChild(smoothnessInput);
+            controlsContainer.appendChild(smoothnessControlItem);
+
+            // Opacity Control
+            const opacityControlItem = document.createElement('div');
+            opacityControlItem.classList.add('control-item');
+
+            const opacityLabel = document.createElement('label');
+            opacityLabel.innerText = 'Opacity';
+            opacityLabel.style.display = 'block';
+            opacityLabel.style.fontSize = '12px';
+            opacityLabel.style.marginBottom = '2px';
+            opacityLabel.style.textAlign = 'center';
+            
+            const opacityInput = document.createElement('input');
+            opacityInput.type = 'number';
+            opacityInput.min = '0';
+            opacityInput.max = '1';
+            opacityInput.step = '0.01';
+            opacityInput.style.width = '40px';
+            opacityInput.style.padding = '2px';
+            opacityInput.style.fontSize = '12px';
+            opacityInput.style.boxSizing = 'border-box';
+            opacityInput.style.display = 'block';
+
+            opacityControlItem.appendChild(opacityLabel);
+            opacityControlItem.appendChild(opacityInput);
+            controlsContainer.appendChild(opacityControlItem);
+
+            // Eraser Mode Control
+            const eraserModeControlItem = document.createElement('div');
+            eraserModeControlItem.classList.add('control-item');
+
+            const eraserModeLabel = document.createElement('label');
+            eraserModeLabel.innerText = 'Mode';
+            eraserModeLabel.style.display = 'block';
+            eraserModeLabel.style.fontSize = '12px';
+            eraserModeLabel.style.marginBottom = '2px';
+            eraserModeLabel.style.textAlign = 'center';
+
+            const eraserModeSelect = document.createElement('select');
+            eraserModeSelect.style.width = '40px';
+            eraserModeSelect.style.padding = '2px';
+            eraserModeSelect.style.fontSize = '12px';
+            eraserModeSelect.style.boxSizing = 'border-box';
+            eraserModeSelect.style.display = 'block';
+            eraserModeSelect.add(new Option('Stroke', 'stroke'));
+            eraserModeSelect.add(new Option('Partial', 'partial'));
+            eraserModeSelect.value = this.settings.eraserMode;
+
+            eraserModeControlItem.appendChild(eraserModeLabel);
+            eraserModeControlItem.appendChild(eraserModeSelect);
+            controlsContainer.appendChild(eraserModeControlItem);
+
+            controlGroup.appendChild(controlsContainer);
+            
+            // Append the control group to the toolbar
+            toolbar.appendChild(controlGroup);
+            this.getLeafRegistry(leaf).toolbarEl = controlGroup;
+
+            // Disable controls if no pen is selected
+            const updateControls = () => {
+                const selectedTool = registry.tool;
+                const pen = this.getSelectedPen(registry);
+                if (pen) {
+                    // Pen is selected
+                    // Enable controls
+                    colorPickerInput.disabled = false;
+                    sizeInput.disabled = false;
+                    smoothnessInput.disabled = false;
+                    opacityInput.disabled = false;
+                    eraserModeSelect.disabled = true;
+            
+                    // Set controls to pen's properties
+                    colorPickerInput.value = pen.color;
+                    sizeInput.value = pen.size.toString();
+                    smoothnessInput.value = pen.smoothness.toString();
+                    opacityInput.value = pen.opacity.toString();
+
+                } else if (selectedTool === 'eraser') {
+                    // Eraser is selected
+                    // Disable pen properties, the size and mode controls configure the eraser
+                    colorPickerInput.disabled = true;
+                    sizeInput.disabled = false;
+                    smoothnessInput.disabled = true;
+                    opacityInput.disabled = true;
+                    eraserModeSelect.disabled = false;
+
+                    sizeInput.value = this.settings.eraserSize.toString();
+                    eraserModeSelect.value = this.settings.eraserMode;
+
+                } else if (selectedTool === 'select') {
+                    // Selection tool is selected
+                    // Only the color picker applies, it recolors the selected strokes
+                    colorPickerInput.disabled = false;
+                    sizeInput.disabled = true;
+                    smoothnessInput.disabled = true;
+                    opacityInput.disabled = true;
+                    eraserModeSelect.disabled = true;
+
+                } else {
+                    // Disable controls for eraser or no tool selected
+                    colorPickerInput.disabled = true;
+                    sizeInput.disabled = true;
+                    smoothnessInput.disabled = true;
+                    opacityInput.disabled = true;
+                    eraserModeSelect.disabled = true;
+                }
+            };
+
+            // Call updateControls initially
+            updateControls();
+
+            // Update controls when the view's tool changes
+            registry.updateToolbar = () => {
+                // Update pen buttons
+                const buttons = controlGroup.querySelectorAll('button');
+                // Text button is the first button
+                const textButton = buttons[0];
+                if (registry.tool === null) {
+                    textButton.classList.add('active');
+                } else {
+                    textButton.classList.remove('active');
+                }
+
+                // Pen buttons
+                for (let i = 0; i < this.settings.pens.length; i++) {
+                    const penButton = buttons[i + 1]; // +1 because of the text button
+                    if (registry.tool === 'pen' && registry.penId === this.settings.pens[i].id) {
+                        penButton.classList.add('active');
+                    } else {
+                        penButton.classList.remove('active');
+                    }
+                }
+
+                // Eraser button
+                const eraserButton = buttons[this.settings.pens.length + 1];
+                if (registry.tool === 'eraser') {
+                    eraserButton.classList.add('active');
+                } else {
+                    eraserButton.classList.remove('active');
+                }
+
+                // Selection button
+                const selectButton = buttons[this.settings.pens.length + 2];
+                if (registry.tool === 'select') {
+                    selectButton.classList.add('active');
+                } else {
+                    selectButton.classList.remove('active');
+                }
+
+                // Shape buttons, only active together with a pen
+                SHAPE_TOOLS.forEach((shapeTool, index) => {
+                    const shapeButton = buttons[this.settings.pens.length + 3 + index];
+                    if (registry.tool === 'pen' && registry.shape === shapeTool.shape) {
+                        shapeButton.classList.add('active');
+                    } else {
+                        shapeButton.classList.remove('active');
+                    }
+                });
+
+                updateControls();
+            };
+            registry.updateToolbar();
+            this.updateDrawingCanvasPointerEvents();
+
+            // Event listeners to update pen properties when controls change
+            colorPickerInput.addEventListener('input', async () => {
+                const pen = this.getSelectedPen(registry);
+                if (pen) {
+                    // Update pen button color
+                    const penIndex = this.settings.pens.findIndex((settingsPen) => settingsPen.id === pen.id);
+                    const penButton = controlGroup.querySelectorAll('button')[penIndex + 1]; // +1 because of the text button
+                    penButton.style.color = colorPickerInput.value;
+                    await this.setPenOverride(registry, pen.id, { color: colorPickerInput.value });
+                }
+            });
+
+            // Recolor the selected strokes once a color has been picked
+            colorPickerInput.addEventListener('change', () => {
+                if (registry.tool === 'select') {
+                    const drawingCanvas = this.activeDrawingCanvas;
+                    if (drawingCanvas && container.contains(drawingCanvas.canvas)) {
+                        drawingCanvas.recolorSelection(colorPickerInput.value);
+                    }
+                }
+            });
+
+            sizeInput.addEventListener('change', async () => {
+                const pen = this.getSelectedPen(registry);
+                if (pen) {
+                    const value = parseInt(sizeInput.value);
+                    if (!isNaN(value) && value >= 1 && value <= 50) {
+                        await this.setPenOverride(registry, pen.id, { size: value });
+                    } else {
+                        new Notice('Size must be between 1 and 50.');
+                        sizeInput.value = pen.size.toString();
+                    }
+                } else if (registry.tool === 'eraser') {
+                    const value = parseInt(sizeInput.value);
+                    if (!isNaN(value) && value >= 1 && value <= 50) {
+                        this.settings.eraserSize = value;
+                        await this.saveSettings();
+                    } else {
+                        new Notice('Size must be between 1 and 50.');
+                        sizeInput.value = this.settings.eraserSize.toString();
+                    }
+                }
+            });
+
+            eraserModeSelect.addEventListener('change', async () => {
+                this.settings.eraserMode = eraserModeSelect.value as EraserMode;
+                await this.saveSettings();
+                // The mode is shared by all views, so every toolbar shows the change
+                this.leafRegistries.forEach((leafRegistry) => leafRegistry.updateToolbar());
+            });
+
+            smoothnessInput.addEventListener('change', async () => {
+                const pen = this.getSelectedPen(registry);
+                if (pen) {
+                    const value = parseFloat(smoothnessInput.value);
+                    if (!isNaN(value) && value >= 0 && value <= 1) {
+                        await this.setPenOverride(registry, pen.id, { smoothness: value });
+                    } else {
+                        new Notice('Smoothness must be between 0 and 1.');
+                        smoothnessInput.value = pen.smoothness.toString();
+                    }
+                }
+            });
+
+            opacityInput.addEventListener('change', async () => {
+                const pen = this.getSelectedPen(registry);
+                if (pen) {
+                    const value = parseFloat(opacityInput.value);
+                    if (!isNaN(value) && value >= 0 && value <= 1) {
+                        await this.setPenOverride(registry, pen.id, { opacity: value });
+                    } else {
+                        new Notice('Opacity must be between 0 and 1.');
+                        opacityInput.value = pen.opacity.toString();
+                    }
+                }
+            });
+        }
+    }
+
+    // Method to update pointer-events of drawing canvases based on the tool selected in their view
+    updateDrawingCanvasPointerEvents() {
+        this.drawingCanvases.forEach((drawingCanvasInstance) => {
+            const registry = drawingCanvasInstance.getRegistry();
+            if (!registry || registry.tool === null) {
+                drawingCanvasInstance.canvas.style.pointerEvents = 'none';
+            } else {
+                drawingCanvasInstance.canvas.style.pointerEvents = 'auto';
+            }
+        });
+    }
+
+    onunload() {
+        // Obsidian doesn't wait for unloading, so the pending writes are started but not awaited
+        this.requestToolStateSave.run();
+        this.saveQueue.flushAll();
+
+        // Remove the toolbars and ink layers from open views
+        this.leafRegistries.forEach((registry) => registry.dispose());
+        this.leafRegistries.clear();
+        this.drawingCanvases.forEach((drawingCanvasInstance) => drawingCanvasInstance.destroy());
+    }
+}
+
+// Tracks the drawing canvases and toolbar the plugin added to a view, so they can be disposed with it
+class LeafDrawingRegistry {
+    leaf: WorkspaceLeaf;
+    drawingCanvases: Set<DrawingCanvas> = new Set();
+    toolbarEl: HTMLElement | null = null; // Drawing control group in the view's toolbar
+    observedEl: HTMLElement | null = null; // Node container watched for nodes being mounted and removed
+    cleanup: (() => void)[] = []; // Teardown of observers attached to the view
+    filePath: string | null = null; // File whose remembered tool state the view uses
+    tool: DrawingTool = null;
+    penId: string | null = null; // Selected pen while the tool is 'pen'
+    shape: ShapeKind | null = null; // Shape drawn by the selected pen, null for freehand
+    penOverrides: { [penId: string]: Partial<PenProperties> } = {}; // Pen changes made in this view's toolbar
+    updateToolbar: () => void = () => {}; // Replaced once the toolbar is built
+
+    constructor(leaf: WorkspaceLeaf) {
+        this.leaf = leaf;
+    }
+
+    // Method to check whether an element is shown in this view
+    contains(element: HTMLElement): boolean {
+        return this.leaf.view.containerEl.contains(element);
+    }
+
+    getToolState(): ToolState {
+        return { tool: this.tool, penId: this.penId, shape: this.shape, penOverrides: this.penOverrides };
+    }
+
+    // Method to switch to a remembered tool state, or to no tool at all
+    setToolState(state: ToolState | undefined) {
+        this.tool = state ? state.tool : null;
+        this.penId = state?.penId ?? null;
+        this.shape = state ? state.shape : null;
+        this.penOverrides = state ? { ...state.penOverrides } : {};
+    }
+
+    // Method to track a drawing canvas until it is destroyed
+    add(drawingCanvas: DrawingCanvas) {
+        this.drawingCanvases.add(drawingCanvas);
+        drawingCanvas.registry = this;
+        drawingCanvas.cleanup.push(() => {
+            this.drawingCanvases.delete(drawingCanvas);
+            drawingCanvas.registry = null;
+        });
+    }
+
+    // Method to destroy the drawing canvases whose node was removed or whose element is no longer shown
+    prune() {
+        const nodes = asCanvasView(this.leaf.view)?.canvas.nodes;
+        Array.from(this.drawingCanvases).forEach((drawingCanvas) => {
+            const nodeRemoved = drawingCanvas.nodeId !== BACKGROUND_NODE_ID && nodes !== undefined && !nodes.has(drawingCanvas.nodeId);
+            if (nodeRemoved || !drawingCanvas.canvas.isConnected) {
+                drawingCanvas.destroy();
+            }
+        });
+    }
+
+    // Method to destroy all drawing canvases, stop observing the view and remove the toolbar
+    dispose() {
+        this.cleanup.forEach((dispose) => dispose());
+        this.cleanup = [];
+        Array.from(this.drawingCanvases).forEach((drawingCanvas) => drawingCanvas.destroy());
+        this.toolbarEl?.remove();
+        this.toolbarEl = null;
+    }
+}
+
+// Debounces writes per file, runs the writes of a file one after another and reports failures
+class SaveQueue {
+    delay: number;
+    pending: Map<string, () => Promise<unknown>> = new Map(); // Latest write waiting for each key
+    timers: Map<string, number> = new Map();
+    running: Map<string, Promise<void>> = new Map(); // Write in progress for each key
+
+    constructor(delay: number) {
+        this.delay = delay;
+    }
+
+    // Method to queue a write, replacing any earlier write for the same key that hasn't started yet
+    schedule(key: string, write: () => Promise<unknown>) {
+        this.pending.set(key, write);
+        const timer = this.timers.get(key);
+        if (timer !== undefined) {
+            window.clearTimeout(timer);
+        }
+        this.timers.set(key, window.setTimeout(() => this.flush(key), this.delay));
+    }
+
+    // Method to drop the pending write of a key, returning whether there was one
+    cancel(key: string): boolean {
+        const timer = this.timers.get(key);
+        if (timer !== undefined) {
+            window.clearTimeout(timer);
+            this.timers.delete(key);
+        }
+        return this.pending.delete(key);
+    }
+
+    // Method to start the pending write of a key now and wait until all its writes are done
+    async flush(key: string) {
+        const write = this.pending.get(key);
+        this.cancel(key);
+        if (!write) {
+            await this.running.get(key);
+            return;
+        }
+
+        const previous = this.running.get(key) || Promise.resolve();
+        const run = previous.then(write).then(() => undefined, (error) => {
+            console.error(`Failed to save ${key}:`, error);
+            new Notice(`Failed to save drawing changes to ${key}. They will be saved again with the next change.`);
+            // Keep the changes around for the next flush, unless newer ones are already waiting
+            if (!this.pending.has(key)) {
+                this.pending.set(key, write);
+            }
+        });
+        this.running.set(key, run);
+        await run;
+        if (this.running.get(key) === run) {
+            this.running.delete(key);
+        }
+    }
+
+    // Method to write everything that is pending
+    async flushAll() {
+        const keys = new Set([...this.pending.keys(), ...this.running.keys()]);
+        await Promise.all(Array.from(keys).map((key) => this.flush(key)));
+    }
+}
+
+// Reads and writes the drawings of each canvas file to a sidecar file next to it
+class CanvasDrawingStore {
+    app: App;
+    cache: Map<string, CanvasDrawingData> = new Map(); // Loaded drawing data keyed by canvas path
+    queue: SaveQueue; // Writes keyed by canvas path
+
+    constructor(app: App, queue: SaveQueue) {
+        this.app = app;
+        this.queue = queue;
+    }
+
+    // Method to get the path of the drawing file belonging to a canvas file
+    getSidecarPath(canvasPath: string): string {
+        return normalizePath(canvasPath + DRAWING_SIDECAR_SUFFIX);
+    }
+
+    // Method to load (or lazily create) the drawing data of a canvas file
+    async load(canvasPath: string): Promise<CanvasDrawingData> {
+        const cached = this.cache.get(canvasPath);
+        if (cached) {
+            return cached;
+        }
+
+        let data: CanvasDrawingData = { version: DRAWING_DATA_VERSION, nodes: {} };
+        const sidecarPath = this.getSidecarPath(canvasPath);
+        await this.recoverInterruptedWrite(sidecarPath);
+        if (await this.app.vault.adapter.exists(sidecarPath)) {
+            try {
+                const parsed = JSON.parse(await this.app.vault.adapter.read(sidecarPath));
+                data = Object.assign(data, parsed);
+                Object.values(data.nodes).forEach((nodeData) => {
+                    nodeData.strokes = decodeStrokes(nodeData.strokes);
+                    const storedHistory = (nodeData as StoredNodeDrawingData).history;
+                    nodeData.history = storedHistory ? decodeHistory(storedHistory, nodeData.strokes) : undefined;
+                });
+                (data.removed || []).forEach((removed) => {
+                    Object.values(removed.nodes).forEach((nodeData) => {
+                        nodeData.strokes = decodeStrokes(nodeData.strokes);
+                    });
+                });
+            } catch (error) {
+                console.error(`Failed to read drawings from ${sidecarPath}`, error);
+                new Notice(`Failed to read drawings for ${canvasPath}.`);
+            }
+        }
+
+        // Another caller may have loaded the same file while we were reading
+        const loaded = this.cache.get(canvasPath);
+        if (loaded) {
+            return loaded;
+        }
+        this.cache.set(canvasPath, data);
+        return data;
+    }
+
+    // Method to finish or roll back a write that was cut off, so no temporary file is left in the vault
+    async recoverInterruptedWrite(sidecarPath: string) {
+        const adapter = this.app.vault.adapter;
+        const tempPath = sidecarPath + TEMP_FILE_SUFFIX;
+        try {
+            if (!(await adapter.exists(tempPath))) {
+                return;
+            }
+
+            // A temporary file that doesn't parse was cut off while being written, and the sidecar is still intact
+            try {
+                JSON.parse(await adapter.read(tempPath));
+            } catch (error) {
+                console.warn(`Dropping incomplete drawing file ${tempPath}`, error);
+                await adapter.remove(tempPath);
+                return;
+            }
+
+            // A complete one is newer than the sidecar, which may already have been removed
+            if (await adapter.exists(sidecarPath)) {
+                await adapter.remove(sidecarPath);
+            }
+            await adapter.rename(tempPath, sidecarPath);
+        } catch (error) {
+            console.error(`Failed to recover drawing file ${tempPath}`, error);
+        }
+    }
+
+    // Method to write the drawing data of a canvas file after a quiet period, batching rapid changes
+    scheduleSave(canvasPath: string) {
+        this.queue.schedule(canvasPath, () => this.write(canvasPath));
+    }
+
+    // Method to write the drawing data of a canvas file now, together with any pending changes
+    async save(canvasPath: string) {
+        this.scheduleSave(canvasPath);
+        await this.queue.flush(canvasPath);
+    }
+
+    // Method to write the drawing data of a canvas file, removing the file once no node is drawable
+    async write(canvasPath: string) {
+        const data = await this.load(canvasPath);
+        const sidecarPath = this.getSidecarPath(canvasPath);
+
+        if (Object.keys(data.nodes).length === 0 && !data.removed?.length) {
+            if (await this.app.vault.adapter.exists(sidecarPath)) {
+                await this.app.vault.adapter.remove(sidecarPath);
+            }
+            return;
+        }
+
+        const nodes: { [nodeId: string]: StoredNodeDrawingData } = {};
+        Object.entries(data.nodes).forEach(([nodeId, nodeData]) => {
+            nodes[nodeId] = encodeNodeDrawingData(nodeData);
+        });
+        // Drawings of nodes made non-drawable are kept without their undo history
+        const removed = (data.removed || []).map((entry) => {
+            const removedNodes: { [nodeId: string]: StoredNodeDrawingData } = {};
+            Object.entries(entry.nodes).forEach(([nodeId, nodeData]) => {
+                removedNodes[nodeId] = { ...nodeData, strokes: nodeData.strokes.map(encodeStroke), history: undefined };
+            });
+            return { nodes: removedNodes };
+        });
+        // Write a complete copy first, so a crash never leaves a half-written drawing file behind; the adapter
+        // can't rename over an existing file, and a crash before the rename is finished by recoverInterruptedWrite
+        const tempPath = sidecarPath + TEMP_FILE_SUFFIX;
+        await this.app.vault.adapter.write(tempPath, JSON.stringify({ version: DRAWING_DATA_VERSION, nodes, removed: removed.length > 0 ? removed : undefined }));
+        if (await this.app.vault.adapter.exists(sidecarPath)) {
+            await this.app.vault.adapter.remove(sidecarPath);
+        }
+        await this.app.vault.adapter.rename(tempPath, sidecarPath);
+    }
+
+    // Method to move the drawing file of a canvas that has been renamed
+    async rename(oldCanvasPath: string, newCanvasPath: string) {
+        // Pending changes are written to the new path once the file has moved
+        const hadPendingSave = this.queue.cancel(oldCanvasPath);
+        await this.queue.flush(oldCanvasPath);
+        if (hadPendingSave) {
+            this.scheduleSave(newCanvasPath);
+        }
+
+        const cached = this.cache.get(oldCanvasPath);
+        this.cache.delete(oldCanvasPath);
+        if (cached) {
+            this.cache.set(newCanvasPath, cached);
+        }
+
+        const oldSidecarPath = this.getSidecarPath(oldCanvasPath);
+        const newSidecarPath = this.getSidecarPath(newCanvasPath);
+        if (!(await this.app.vault.adapter.exists(oldSidecarPath))) {
+            return;
+        }
+        if (await this.app.vault.adapter.exists(newSidecarPath)) {
+            // Never overwrite drawings that already belong to the new path
+            console.warn(`Drawing file ${newSidecarPath} already exists, leaving ${oldSidecarPath} in place`);
+            return;
+        }
+        await this.app.vault.adapter.rename(oldSidecarPath, newSidecarPath);
+    }
+
+    // Method to get the undo history saved with a node's drawing, once the drawing has been loaded
+    getHistory(canvasPath: string, nodeId: string): DrawingHistory | null {
+        const nodeData = this.cache.get(canvasPath)?.nodes[nodeId];
+        if (!nodeData) {
+            return null;
+        }
+        if (!nodeData.history) {
+            nodeData.history = { undoStack: [], redoStack: [] };
+        }
+        return nodeData.history;
+    }
+
+    // Method to give a new canvas file a copy of the drawings of another one
+    async copy(sourceCanvasPath: string, targetCanvasPath: string) {
+        const source = await this.load(sourceCanvasPath);
+        const nodes: { [nodeId: string]: NodeDrawingData } = {};
+        // Strokes are never changed in place, so only the node entries and history stacks need copying
+        Object.entries(source.nodes).forEach(([nodeId, nodeData]) => {
+            const history = nodeData.history;
+            nodes[nodeId] = { ...nodeData, history: history && { undoStack: [...history.undoStack], redoStack: [...history.redoStack] } };
+        });
+        this.cache.set(targetCanvasPath, { version: DRAWING_DATA_VERSION, nodes });
+        await this.save(targetCanvasPath);
+    }
+
+    // Method to re-key cached drawings after a folder has been renamed
+    renameFolder(oldFolderPath: string, newFolderPath: string) {
+        Array.from(this.cache.entries()).forEach(([canvasPath, data]) => {
+            if (canvasPath.startsWith(oldFolderPath + '/')) {
+                const newCanvasPath = newFolderPath + canvasPath.slice(oldFolderPath.length);
+                this.cache.delete(canvasPath);
+                this.cache.set(newCanvasPath, data);
+                if (this.queue.cancel(canvasPath)) {
+                    this.scheduleSave(newCanvasPath);
+                }
+            }
+        });
+    }
+
+    // Method to delete the drawing file of a canvas that has been deleted
+    async delete(canvasPath: string) {
+        this.queue.cancel(canvasPath);
+        await this.queue.flush(canvasPath);
+        this.cache.delete(canvasPath);
+        const sidecarPath = this.getSidecarPath(canvasPath);
+        if (await this.app.vault.adapter.exists(sidecarPath)) {
+            await this.app.vault.adapter.remove(sidecarPath);
+        }
+    }
+
+    // Method to drop cached drawings of canvases inside a deleted folder
+    forgetFolder(folderPath: string) {
+        Array.from(this.cache.keys()).forEach((canvasPath) => {
+            if (canvasPath.startsWith(folderPath + '/')) {
+                this.queue.cancel(canvasPath);
+                this.cache.delete(canvasPath);
+            }
+        });
+    }
+
+    // Method to update the strokes of a single node and persist them
+    async setStrokes(canvasPath: string, nodeId: string, strokes: Stroke[], history?: DrawingHistory) {
+        const data = await this.load(canvasPath);
+        if (data.nodes[nodeId]) {
+            data.nodes[nodeId].strokes = strokes;
+        } else {
+            data.nodes[nodeId] = { strokes };
+        }
+        // Entries created by the first stroke, like the background's, pick up the history kept so far
+        if (history) {
+            data.nodes[nodeId].history = history;
+        }
+        this.scheduleSave(canvasPath);
+    }
+
+    // Method to set or clear the size a node's ink scales from
+    async setInkScaling(canvasPath: string, nodeId: string, inkScaling: InkScaling | null) {
+        const data = await this.load(canvasPath);
+        const nodeData = data.nodes[nodeId];
+        if (!nodeData) {
+            return;
+        }
+        if (inkScaling) {
+            nodeData.inkScaling = inkScaling;
+        } else {
+            delete nodeData.inkScaling;
+        }
+        await this.save(canvasPath);
+    }
+
+    // Method to turn text anchoring of a node's ink on or off
+    async setTextAnchoring(canvasPath: string, nodeId: string, enabled: boolean) {
+        const data = await this.load(canvasPath);
+        const nodeData = data.nodes[nodeId];
+        if (!nodeData) {
+            return;
+        }
+        if (enabled) {
+            nodeData.textAnchoring = true;
+        } else {
+            delete nodeData.textAnchoring;
+        }
+        await this.save(canvasPath);
+    }
+
+    // Method to read the nodes stored in a .canvas file
+    async readCanvasNodes(file: TFile): Promise<CanvasNodeData[]> {
+        try {
+            const parsed = JSON.parse(await this.app.vault.cachedRead(file));
+            return Array.isArray(parsed?.nodes) ? parsed.nodes : [];
+        } catch (error) {
+            // Empty or malformed canvas files simply have no nodes
+            return [];
+        }
+    }
+}
+
+class DrawingCanvas {
+    canvas: HTMLCanvasElement;
+    ctx: CanvasRenderingContext2D;
+    highlightCanvas: HTMLCanvasElement; // Layer below the ink that multiplies highlighter strokes onto the node
+    highlightCtx: CanvasRenderingContext2D;
+    plugin: CanvasDrawingNodePlugin;
+    strokes: Stroke[];
+    history: DrawingHistory; // Undo/redo stacks shared with other views of the same node
+    pendingHistorySnapshot: Stroke[] | null; // Strokes before the gesture in progress
+    currentStroke: Stroke | null;
+    strokeStartTime: number; // Event timestamp of the first point of the current stroke
+    lastEraserPoint: Point | null; // Previous eraser position during an eraser gesture
+    selectedStrokes: Stroke[]; // Strokes picked with the selection tool
+    lassoPoints: Point[] | null; // Lasso path while selecting
+    selectionDrag: SelectionDrag | null; // Move, scale or rotate of the selection in progress
+    shapeStart: Point | null; // Starting corner of a shape being drawn with a shape tool
+    holdTimer: number | null; // Timer recognizing a shape when the pen is held still
+    holdAnchor: Point | null; // Position where the pen started being held still
+    canvasPath: string; // Path of the .canvas file the node belongs to
+    nodeId: string; // Reference to the node's unique ID
+    resizeObserver: ResizeObserver;
+    viewTransform: ViewTransform = { x: 0, y: 0, scale: 1 }; // Maps stroke coordinates to CSS pixels of the canvas
+    inkScaling: InkScaling | null = null; // Set when the ink scales with the node instead of staying anchored
+    pixelRatio = 1; // Backing store pixels per CSS pixel
+    cssWidth: number;
+    cssHeight: number;
+    coversScrollContent = false; // Sized to the whole scrollable content of the parent instead of its visible box
+    inkCache: HTMLCanvasElement; // Committed strokes, so only the live stroke is drawn while the pen moves
+    inkCacheCtx: CanvasRenderingContext2D;
+    highlightCache: HTMLCanvasElement; // Committed highlighter strokes
+    highlightCacheCtx: CanvasRenderingContext2D;
+    cachedStrokes: Stroke[] | null = null; // Strokes the caches show, null when they must be redrawn in full
+    predictedPoints: Point[] = []; // Where the pen is expected to go next, drawn but never stored
+    redrawFrame: number | null = null; // Pending redraw of the live stroke
+    textAnchoring = false; // New strokes attach to the text under them and follow it when it reflows
+    anchorUpdateFrame: number | null = null; // Pending repositioning of text-anchored strokes
+    cleanup: (() => void)[] = []; // Teardown of observers attached from outside
+    registry: LeafDrawingRegistry | null = null; // View the drawing is shown in, which holds the selected tool
+
+    constructor(
+        plugin: CanvasDrawingNodePlugin,
+        canvas: HTMLCanvasElement,
+        canvasPath: string,      // Canvas file path parameter
+        nodeId: string,          // Node ID parameter
+        existingStrokes: Stroke[] // Existing strokes parameter
+    ) {
+        this.canvas = canvas;
+        this.plugin = plugin;
+        this.canvasPath = canvasPath;
+        this.nodeId = nodeId; // Initialize nodeId
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Failed to get 2d context for canvas');
+        }
+        this.ctx = ctx;
+        this.cssWidth = canvas.width;
+        this.cssHeight = canvas.height;
+
+        // Highlighter layer, blended with multiply so highlighted text stays readable
+        this.highlightCanvas = document.createElement('canvas');
+        this.highlightCanvas.classList.add('drawing-canvas-highlight');
+        this.highlightCanvas.width = canvas.width;
+        this.highlightCanvas.height = canvas.height;
+        this.highlightCanvas.style.position = 'absolute';
+        this.highlightCanvas.style.top = canvas.style.top;
+        this.highlightCanvas.style.left = canvas.style.left;
+        this.highlightCanvas.style.width = canvas.style.width;
+        this.highlightCanvas.style.height = canvas.style.height;
+        this.highlightCanvas.style.pointerEvents = 'none';
+        this.highlightCanvas.style.zIndex = canvas.style.zIndex;
+        this.highlightCanvas.style.mixBlendMode = 'multiply';
+        canvas.parentElement?.insertBefore(this.highlightCanvas, canvas);
+        const highlightCtx = this.highlightCanvas.getContext('2d');
+        if (!highlightCtx) {
+            throw new Error('Failed to get 2d context for highlighter canvas');
+        }
+        this.highlightCtx = highlightCtx;
+
+        // Offscreen caches of the committed strokes of both layers
+        this.inkCache = document.createElement('canvas');
+        this.highlightCache = document.createElement('canvas');
+        const inkCacheCtx = this.inkCache.getContext('2d');
+        const highlightCacheCtx = this.highlightCache.getContext('2d');
+        if (!inkCacheCtx || !highlightCacheCtx) {
+            throw new Error('Failed to get 2d context for stroke caches');
+        }
+        this.inkCacheCtx = inkCacheCtx;
+        this.highlightCacheCtx = highlightCacheCtx;
+
+        this.strokes = existingStrokes; // Initialize strokes with existing data
+        this.history = plugin.getHistory(canvasPath, nodeId);
+        this.pendingHistorySnapshot = null;
+        this.currentStroke = null;
+        this.strokeStartTime = 0;
+        this.lastEraserPoint = null;
+        this.selectedStrokes = [];
+        this.lassoPoints = null;
+        this.selectionDrag = null;
+        this.shapeStart = null;
+        this.holdTimer = null;
+        this.holdAnchor = null;
+
+        // Event listeners
+        this.canvas.addEventListener('pointerdown', this.onPointerDown.bind(this));
+        this.canvas.addEventListener('pointermove', this.onPointerMove.bind(this));
+        this.canvas.addEventListener('pointerup', this.onPointerUp.bind(this));
+        this.canvas.addEventListener('pointerleave', this.onPointerLeave.bind(this));
+
+        // Observe nodeElement resize
+        this.resizeObserver = new ResizeObserver(entries => {
+            if (this.coversScrollContent) {
+                this.fitToScrollContent();
+                return;
+            }
+            for (let entry of entries) {
+                const { width, height } = entry.contentRect;
+                this.onResize(width, height);
+            }
+        });
+        this.resizeObserver.observe(this.canvas.parentElement!); // Assuming the canvas is appended to the nodeElement
+
+        // Render existing strokes upon initialization
+        this.redraw();
+    }
+
+    // Method to get the registry of the view the drawing is shown in
+    getRegistry(): LeafDrawingRegistry | null {
+        // Drawings of .draw files aren't added to a registry, so their view is looked up once it is found
+        if (!this.registry) {
+            this.registry = this.plugin.getLeafRegistryForElement(this.canvas);
+        }
+        return this.registry;
+    }
+
+    // Method to detach the drawing canvas from the page and stop observing its container
+    destroy() {
+        this.cancelShapeRecognition();
+        this.resizeObserver.disconnect();
+        if (this.anchorUpdateFrame !== null) {
+            window.cancelAnimationFrame(this.anchorUpdateFrame);
+            this.anchorUpdateFrame = null;
+        }
+        if (this.redrawFrame !== null) {
+            window.cancelAnimationFrame(this.redrawFrame);
+            this.redrawFrame = null;
+        }
+        this.cleanup.forEach((dispose) => dispose());
+        this.cleanup = [];
+        this.canvas.remove();
+        this.highlightCanvas.remove();
+        this.plugin.drawingCanvases.delete(this.canvas);
+        if (this.plugin.activeDrawingCanvas === this) {
+            this.plugin.activeDrawingCanvas = null;
+        }
+    }
+
+    // Method to change how stroke coordinates map to canvas pixels, e.g. when the canvas is panned or zoomed
+    setViewTransform(viewTransform: ViewTransform) {
+        const current = this.viewTransform;
+        if (current.x === viewTransform.x && current.y === viewTransform.y && current.scale === viewTransform.scale) {
+            return;
+        }
+        this.viewTransform = viewTransform;
+        this.cachedStrokes = null;
+        this.redraw();
+    }
+
+    // Method to get the key identifying this node across all canvases
+    getDrawingKey(): string {
+        return getDrawingKey(this.canvasPath, this.nodeId);
+    }
+
+    // Method to record the strokes before a change as an undo step
+    pushHistory(previousStrokes: Stroke[]) {
+        this.history.undoStack.push(previousStrokes);
+        if (this.history.undoStack.length > MAX_HISTORY_LENGTH) {
+            this.history.undoStack.shift();
+        }
+        this.history.redoStack = []; // Clear redo stack
+    }
+
+    // Method to remove all strokes as a single undoable change
+    clear() {
+        if (this.strokes.length === 0) {
+            return;
+        }
+        this.selectedStrokes = [];
+        this.commitStrokes([]);
+    }
+
+    // Method to persist the strokes; the write itself is queued, but loading the drawing data first can still fail
+    saveStrokes() {
+        this.plugin.saveStrokes(this.canvasPath, this.nodeId, this.strokes).catch((error) => {
+            console.error(`Failed to save ${this.getDrawingKey()}:`, error);
+            new Notice(`Failed to save drawing changes to ${this.canvasPath}.`);
+        });
+    }
+
+    // Method to replace all strokes as a single undoable change and persist them
+    commitStrokes(strokes: Stroke[]) {
+        this.pushHistory(this.strokes);
+        this.strokes = strokes;
+        this.redraw();
+        this.saveStrokes();
+    }
+
+    // Method to remember the strokes before a change that spans several pointer events
+    beginChange() {
+        if (!this.pendingHistorySnapshot) {
+            this.pendingHistorySnapshot = this.strokes;
+        }
+    }
+
+    // Method to record the change started by beginChange as a single undo step
+    endChange() {
+        const snapshot = this.pendingHistorySnapshot;
+        this.pendingHistorySnapshot = null;
+        if (snapshot && snapshot !== this.strokes) {
+            this.pushHistory(snapshot);
+        }
+    }
+
+    canUndo(): boolean {
+        return this.history.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.history.redoStack.length > 0;
+    }
+
+    // Method to restore the strokes as they were before the last change
+    undo() {
+        const previousStrokes = this.history.undoStack.pop();
+        if (!previousStrokes) {
+            return;
+        }
+        this.history.redoStack.push(this.strokes);
+        this.strokes = previousStrokes;
+        this.selectedStrokes = [];
+        this.redraw();
+        this.scheduleTextAnchorUpdate(); // Restored strokes may be anchored to text that has moved since
+        this.saveStrokes();
+    }
+
+    // Method to re-apply the last undone change
+    redo() {
+        const nextStrokes = this.history.redoStack.pop();
+        if (!nextStrokes) {
+            return;
+        }
+        this.history.undoStack.push(this.strokes);
+        this.strokes = nextStrokes;
+        this.selectedStrokes = [];
+        this.redraw();
+        this.scheduleTextAnchorUpdate();
+        this.saveStrokes();
+    }
+
+    onResize(width: number, height: number) {
+        // Update canvas size, with the backing store at the pixel ratio
+        this.cssWidth = width;
+        this.cssHeight = height;
+        this.canvas.width = Math.round(width * this.pixelRatio);
+        this.canvas.height = Math.round(height * this.pixelRatio);
+        this.highlightCanvas.width = this.canvas.width;
+        this.highlightCanvas.height = this.canvas.height;
+        this.cachedStrokes = null;
+
+        // Ink that scales with the node keeps its aspect ratio and fits the node's new size; the height of
+        // scrollable content changes with its text, so only the width counts there
+        if (this.inkScaling) {
+            const scale = this.coversScrollContent
+                ? width / this.inkScaling.baseWidth
+                : Math.min(width / this.inkScaling.baseWidth, height / this.inkScaling.baseHeight);
+            this.viewTransform = { x: 0, y: 0, scale: isFinite(scale) && scale > 0 ? scale : 1 };
+        }
+
+        // Redraw strokes
+        this.redraw();
+    }
+
+    // Method to make the canvas cover and scroll with all of its parent's content, including parts rendered later
+    coverScrollContent() {
+        const parent = this.canvas.parentElement;
+        if (!parent || this.coversScrollContent) {
+            return;
+        }
+        this.coversScrollContent = true;
+
+        // Content growing or shrinking doesn't resize the scroll container itself
+        Array.from(parent.children).forEach((child) => {
+            if (child !== this.canvas && child !== this.highlightCanvas) {
+                this.resizeObserver.observe(child);
+            }
+        });
+        const contentObserver = new MutationObserver(() => this.fitToScrollContent());
+        contentObserver.observe(parent, { childList: true, subtree: true });
+        this.cleanup.push(() => contentObserver.disconnect());
+
+        this.fitToScrollContent();
+    }
+
+    // Method to resize the canvas to the scroll size of its parent
+    fitToScrollContent() {
+        const parent = this.canvas.parentElement;
+        if (!parent) {
+            return;
+        }
+
+        // Collapse the layers first so they don't count towards the content size themselves
+        const layers = [this.canvas, this.highlightCanvas];
+        layers.forEach((layer) => {
+            layer.style.width = '0';
+            layer.style.height = '0';
+        });
+        const width = parent.scrollWidth;
+        const height = parent.scrollHeight;
+        layers.forEach((layer) => {
+            layer.style.width = `${width}px`;
+            layer.style.height = `${height}px`;
+        });
+
+        if (width !== this.cssWidth || height !== this.cssHeight) {
+            this.onResize(width, height);
+        }
+
+        // Changed content may have moved the text that strokes are anchored to
+        this.scheduleTextAnchorUpdate();
+    }
+
+    // Method to turn text anchoring on or off for new strokes
+    setTextAnchoring(enabled: boolean) {
+        this.textAnchoring = enabled;
+        this.scheduleTextAnchorUpdate();
+    }
+
+    // Method to reposition text-anchored strokes once per frame, after the content has been laid out
+    scheduleTextAnchorUpdate() {
+        if (!this.textAnchoring || this.anchorUpdateFrame !== null) {
+            return;
+        }
+        this.anchorUpdateFrame = window.requestAnimationFrame(() => {
+            this.anchorUpdateFrame = null;
+            this.updateTextAnchors();
+        });
+    }
+
+    // Method to move text-anchored strokes along with their text and flag the ones whose text is gone
+    updateTextAnchors() {
+        // Don't move strokes out from under an ongoing gesture
+        if (!this.textAnchoring || this.currentStroke || this.selectionDrag) {
+            return;
+        }
+
+        let changed = false;
+        const replacements = new Map<Stroke, Stroke>();
+        const strokes = this.strokes.map((stroke) => {
+            const anchor = stroke.anchor;
+            if (!anchor) {
+                return stroke;
+            }
+
+            const position = this.locateTextAnchor(anchor);
+            if (!position) {
+                if (anchor.missing) {
+                    return stroke;
+                }
+                changed = true;
+                const flagged = { ...stroke, anchor: { ...anchor, missing: true } };
+                replacements.set(stroke, flagged);
+                return flagged;
+            }
+
+            const dx = position.x - anchor.x;
+            const dy = position.y - anchor.y;
+            if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5 && !anchor.missing) {
+                return stroke;
+            }
+            changed = true;
+            const movedAnchor: TextAnchor = { ...anchor, x: position.x, y: position.y };
+            delete movedAnchor.missing;
+            const moved = { ...transformStroke(stroke, [1, 0, 0, 1, dx, dy], 1), anchor: movedAnchor };
+            replacements.set(stroke, moved);
+            return moved;
+        });
+
+        // Following the layout isn't an edit of its own, so it neither adds an undo step nor saves: views
+        // of different widths each place the strokes for their own layout, which is saved with the next edit
+        if (changed) {
+            this.strokes = strokes;
+            this.selectedStrokes = this.selectedStrokes.map((stroke) => replacements.get(stroke) || stroke);
+            this.redraw();
+        }
+    }
+
+    // Method to attach a stroke to the text under its center, if text anchoring is on
+    anchorStrokeToText(stroke: Stroke): Stroke {
+        if (!this.textAnchoring) {
+            return stroke;
+        }
+        const { anchor: previousAnchor, ...unanchored } = stroke;
+        const anchor = this.createTextAnchor(stroke);
+        if (anchor) {
+            return { ...unanchored, anchor };
+        }
+        return previousAnchor ? unanchored : stroke;
+    }
+
+    // Method to find the text block and character nearest to the center of a stroke
+    createTextAnchor(stroke: Stroke): TextAnchor | null {
+        const parent = this.canvas.parentElement;
+        const bounds = getStrokesBounds([stroke]);
+        if (!parent || !bounds) {
+            return null;
+        }
+        const center = this.strokeToClientPoint({ x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 });
+
+        // Prefer the block under the center, otherwise the closest one
+        const blocks = getTextBlocks(parent);
+        const distances = blocks.map((element) => {
+            const rect = element.getBoundingClientRect();
+            const dx = Math.max(rect.left - center.x, 0, center.x - rect.right);
+            const dy = Math.max(rect.top - center.y, 0, center.y - rect.bottom);
+            return Math.hypot(dx, dy);
+        });
+        if (blocks.length === 0) {
+            return null;
+        }
+        const block = blocks[distances.indexOf(Math.min(...distances))];
+
+        // Hit-test the text below the ink layers
+        const pointerEvents = this.canvas.style.pointerEvents;
+        this.canvas.style.pointerEvents = 'none';
+        const offset = getTextOffsetAtPoint(block, center.x, center.y);
+        this.canvas.style.pointerEvents = pointerEvents;
+
+        const blockText = normalizeBlockText(block);
+        const occurrence = blocks
+            .filter((element) => normalizeBlockText(element) === blockText)
+            .indexOf(block);
+        const rect = getTextOffsetRect(block, offset);
+        const position = this.clientToStrokePoint(rect.left, rect.top);
+        return {
+            block: blockText,
+            occurrence: Math.max(0, occurrence),
+            offset,
+            text: (block.textContent || '').slice(offset, offset + TEXT_ANCHOR_CONTEXT_LENGTH),
+            x: position.x,
+            y: position.y,
+        };
+    }
+
+    // Method to find where an anchor's text is now, or null when it has been deleted
+    locateTextAnchor(anchor: TextAnchor): Point | null {
+        const parent = this.canvas.parentElement;
+        const rect = parent ? locateTextAnchorRect(parent, anchor) : null;
+        return rect ? this.clientToStrokePoint(rect.left, rect.top) : null;
+    }
+
+    // Method to convert a position on screen into stroke coordinates
+    clientToStrokePoint(clientX: number, clientY: number): Point {
+        const rect = this.canvas.getBoundingClientRect();
+        const scaleX = rect.width > 0 ? this.cssWidth / rect.width : 1;
+        const scaleY = rect.height > 0 ? this.cssHeight / rect.height : 1;
+        const { x, y, scale } = this.viewTransform;
+        return {
+            x: ((clientX - rect.left) * scaleX - x) / scale,
+            y: ((clientY - rect.top) * scaleY - y) / scale,
+        };
+    }
+
+    // Method to convert stroke coordinates into a position on screen
+    strokeToClientPoint(point: Point): Point {
+        const rect = this.canvas.getBoundingClientRect();
+        const scaleX = this.cssWidth > 0 ? rect.width / this.cssWidth : 1;
+        const scaleY = this.cssHeight > 0 ? rect.height / this.cssHeight : 1;
+        const { x, y, scale } = this.viewTransform;
+        return {
+            x: rect.left + (point.x * scale + x) * scaleX,
+            y: rect.top + (point.y * scale + y) * scaleY,
+        };
+    }
+
+    // Method to change the resolution of the backing store, e.g. for the screen density and canvas zoom
+    setPixelRatio(pixelRatio: number) {
+        if (pixelRatio === this.pixelRatio) {
+            return;
+        }
+        this.pixelRatio = pixelRatio;
+        this.onResize(this.cssWidth, this.cssHeight);
+    }
+
+    // Method to switch between ink that scales with the node and ink anchored to the top-left corner
+    setInkScaling(inkScaling: InkScaling | null) {
+        this.inkScaling = inkScaling;
+        if (!inkScaling) {
+            this.viewTransform = { x: 0, y: 0, scale: 1 };
+            this.cachedStrokes = null;
+        }
+        this.onResize(this.cssWidth, this.cssHeight);
+    }
+
+    onPointerDown(e: PointerEvent) {
+        const registry = this.getRegistry(); // Tools are chosen per view
+        if (!registry || registry.tool === null) {
+            return; // Do nothing if no tool is selected
+        }
+        this.plugin.activeDrawingCanvas = this;
+
+        const point = this.getPointFromEvent(e);
+
+        if (registry.tool === 'eraser') {
+            this.eraseAlong(point, point);
+            this.lastEraserPoint = point;
+        } else if (registry.tool === 'select') {
+            this.startSelectionGesture(point);
+        } else if (registry.tool === 'pen') {
+            const pen = this.plugin.getSelectedPen(registry);
+            if (!pen) {
+                return;
+            }
+            this.strokeStartTime = e.timeStamp;
+            const penColor = pen.color;
+            const penSize = pen.size;
+            const penSmoothness = pen.smoothness;
+            const penOpacity = pen.opacity;
+            const shape = registry.shape;
+            if (shape) {
+                // Shapes are stretched from the starting point to the pointer
+                this.shapeStart = point;
+                const currentShape: Shape = {
+                    color: penColor,
+                    size: penSize,
+                    smoothing: 0,
+                    opacity: penOpacity,
+                    shape,
+                    points: getShapePoints(shape, point, point),
+                };
+                this.currentStroke = currentShape;
+            } else {
+                this.currentStroke = {
+                    color: penColor,
+                    size: penSize,
+                    smoothing: penSmoothness,
+                    opacity: penOpacity,
+                    points: [this.addPenData(point, e, null)],
+                };
+            }
 
-            // Text Button
-            const textControlItem = document.createElement('div');
-            textControlItem.classList.add('canvas-control-item');
+            // Ballpoint is the default, so older strokes without a type keep rendering the same
+            if (pen.type !== 'ballpoint') {
+                this.currentStroke.type = pen.type;
+            }
+        }
+    }
 
-            const textButton = document.createElement('button');
-            textButton.type = 'button';
-            textButton.classList.add('clickable-icon', 'view-action');
-            setIcon(textButton, 'pencil'); // Use an appropriate icon
+    onPointerMove(e: PointerEvent) {
+        const registry = this.getRegistry();
+        if (!registry || registry.tool === null) {
+            return; // Do nothing if no tool is selected
+        }
 
-            textButton.setAttribute('aria-label', 'Text Tool');
-            textButton.setAttribute('title', 'Text Tool');
+        const point = this.getPointFromEvent(e);
 
-            // Handle text button click
-            textButton.addEventListener('click', (event) => {
-                event.stopPropagation(); // Prevent event bubbling
+        if (this.currentStroke) {
+            if (isShape(this.currentStroke)) {
+                // Recognized shapes stay as they are until the pen is lifted
+                if (this.shapeStart) {
+                    this.currentStroke.points = getShapePoints(this.currentStroke.shape, this.shapeStart, point);
+                    this.scheduleRedraw();
+                }
+                return;
+            }
 
-                // Deselect any selected tool
-                this.selectedTool = null;
-                this.updateSelectedTool();
+            // Take every sample the browser merged into this event, and show where the pen is predicted to go
+            const points = this.currentStroke.points;
+            const samples = e.getCoalescedEvents ? e.getCoalescedEvents() : [];
+            (samples.length > 0 ? samples : [e]).forEach((sample) => {
+                points.push(this.addPenData(this.getPointFromEvent(sample), sample, points[points.length - 1]));
+            });
+            const predicted = e.getPredictedEvents ? e.getPredictedEvents() : [];
+            this.predictedPoints = [];
+            predicted.forEach((sample) => {
+                const previous = this.predictedPoints[this.predictedPoints.length - 1] || points[points.length - 1];
+                this.predictedPoints.push(this.addPenData(this.getPointFromEvent(sample), sample, previous));
             });
+            this.scheduleShapeRecognition(point);
+            this.scheduleRedraw();
+        } else if (registry.tool === 'eraser' && e.buttons === 1) {
+            // Only erase when the mouse button is pressed, covering the whole path since the last event
+            this.eraseAlong(this.lastEraserPoint || point, point);
+            this.lastEraserPoint = point;
+        } else if (registry.tool === 'select' && e.buttons === 1) {
+            this.updateSelectionGesture(point);
+        }
+    }
 
-            textControlItem.appendChild(textButton);
-            controlGroup.appendChild(textControlItem);
+    // Method to convert a pointer event into canvas coordinates
+    getPointFromEvent(e: PointerEvent): Point {
+        // The canvas scrolls with the content, so its rectangle already includes the scroll offset
+        return this.clientToStrokePoint(e.clientX, e.clientY);
+    }
 
-            // Create Pen Buttons
-            for (let i = 0; i < this.settings.numPens; i++) {
-                const penControlItem = document.createElement('div');
-                penControlItem.classList.add('canvas-control-item');
+    // Method to record pressure, tilt and timing of a pointer event on a stroke point
+    addPenData(point: Point, e: PointerEvent, previous: Point | null): Point {
+        point.t = Math.round(e.timeStamp - this.strokeStartTime);
 
-                const penButton = document.createElement('button');
-                penButton.type = 'button';
-                penButton.classList.add('clickable-icon', 'view-action');
-                setIcon(penButton, 'brush'); // Use a brush icon for pens
+        if (!this.plugin.settings.usePressure) {
+            return point;
+        }
 
-                // Set the pen icon's color
-                penButton.style.color = this.settings.penColors[i];
+        if (e.pointerType === 'pen') {
+            point.pressure = e.pressure;
+            if (e.tiltX !== 0 || e.tiltY !== 0) {
+                point.tiltX = e.tiltX;
+                point.tiltY = e.tiltY;
+            }
+        } else if (this.plugin.settings.simulatePressure) {
+            // Mouse and touch don't report real pressure, so derive it from speed: faster is thinner
+            if (!previous || previous.pressure === undefined || previous.t === undefined) {
+                point.pressure = 0.5;
+            } else {
+                const distance = Math.hypot(point.x - previous.x, point.y - previous.y);
+                const elapsed = Math.max(1, point.t - previous.t);
+                const targetPressure = Math.min(1, Math.max(0.15, 1 - distance / elapsed / 3));
+                point.pressure = previous.pressure + (targetPressure - previous.pressure) * 0.3;
+            }
+        }
+        return point;
+    }
 
-                penButton.setAttribute('aria-label', `Pen ${i + 1}`);
-                penButton.setAttribute('title', `Pen ${i + 1}`);
+    onPointerUp() {
+        this.finishGesture();
+    }
 
-                // Handle pen button click
-                penButton.addEventListener('click', async (event) => {
-                    event.stopPropagation(); // Prevent event bubbling
+    onPointerLeave() {
+        this.finishGesture();
+    }
 
-                    // Select this pen
-                    this.selectedTool = i;
-                    this.updateSelectedTool();
+    // Method to try replacing the freehand stroke by a shape once the pen is held still
+    scheduleShapeRecognition(point: Point) {
+        if (!this.plugin.settings.snapToShape) {
+            return;
+        }
+
+        // Small jitter doesn't count as moving
+        if (this.holdAnchor && Math.hypot(point.x - this.holdAnchor.x, point.y - this.holdAnchor.y) <= SHAPE_HOLD_TOLERANCE) {
+            return;
+        }
+        this.cancelShapeRecognition();
+        this.holdAnchor = point;
+        this.holdTimer = window.setTimeout(() => {
+            this.holdTimer = null;
+            if (!this.currentStroke || isShape(this.currentStroke)) {
+                return;
+            }
+            const recognized = recognizeShape(this.currentStroke);
+            if (recognized) {
+                this.currentStroke = recognized;
+                this.redraw();
+            }
+        }, SHAPE_HOLD_DELAY);
+    }
+
+    // Method to stop waiting for the pen to be held still
+    cancelShapeRecognition() {
+        if (this.holdTimer !== null) {
+            window.clearTimeout(this.holdTimer);
+            this.holdTimer = null;
+        }
+        this.holdAnchor = null;
+    }
+
+    // Method to commit the stroke being drawn or the erasing in progress
+    finishGesture() {
+        this.cancelShapeRecognition();
+        this.shapeStart = null;
+        this.predictedPoints = [];
+        if (this.currentStroke) {
+            const stroke = this.currentStroke;
+            this.currentStroke = null;
+
+            if (isShape(stroke) && isShapeTooSmall(stroke, SHAPE_MIN_SIZE / this.viewTransform.scale)) {
+                // A click with a shape tool would leave a shape too small to see or select
+                this.redraw();
+            } else {
+                // Save strokes after adding a new stroke, without the points that don't change its shape
+                const simplified = isShape(stroke) ? stroke : simplifyStroke(stroke, this.plugin.settings.simplifyTolerance / this.viewTransform.scale);
+                this.commitStrokes([...this.strokes, this.anchorStrokeToText(simplified)]);
+            }
+        }
+        this.lastEraserPoint = null;
+        this.finishSelectionGesture();
+        this.endChange();
+    }
+
+    // Method to erase everything the eraser touches while moving from one point to another
+    eraseAlong(from: Point, to: Point) {
+        // The eraser keeps its size on screen regardless of zoom
+        const eraserRadius = this.plugin.settings.eraserSize / 2 / this.viewTransform.scale;
+        const partial = this.plugin.settings.eraserMode === 'partial';
+        let changed = false;
+        const newStrokes: Stroke[] = [];
+        this.strokes.forEach((stroke) => {
+            if (partial) {
+                // Keep only the parts of the stroke outside the eraser path
+                const pieces = eraseFromStroke(stroke, from, to, eraserRadius);
+                if (pieces) {
+                    changed = true;
+                    newStrokes.push(...pieces);
+                    return;
+                }
+            } else if (strokeTouchesSegment(stroke, from, to, eraserRadius)) {
+                changed = true;
+                return;
+            }
+            newStrokes.push(stroke);
+        });
+
+        if (changed) {
+            this.beginChange(); // A whole eraser gesture is undone at once
+            this.strokes = newStrokes;
+            this.redraw();
+
+            // Save strokes after erasing
+            this.saveStrokes();
+        }
+    }
+
+    // Method to drop the current stroke selection
+    clearSelection() {
+        if (this.selectedStrokes.length === 0 && !this.lassoPoints) {
+            return;
+        }
+        this.selectedStrokes = [];
+        this.lassoPoints = null;
+        this.selectionDrag = null;
+        this.redraw();
+    }
+
+    // Method to get the bounding box of the selected strokes, including their width
+    getSelectionBounds(): Bounds | null {
+        return getStrokesBounds(this.selectedStrokes);
+    }
+
+    // Method to get the positions of the scale handles (corners) and the rotate handle (above the box)
+    getSelectionHandles(bounds: Bounds): { corners: Point[]; rotate: Point } {
+        return {
+            corners: [
+                { x: bounds.minX, y: bounds.minY },
+                { x: bounds.maxX, y: bounds.minY },
+                { x: bounds.maxX, y: bounds.maxY },
+                { x: bounds.minX, y: bounds.maxY },
+            ],
+            // The handles keep their size on screen regardless of zoom
+            rotate: { x: (bounds.minX + bounds.maxX) / 2, y: bounds.minY - SELECTION_ROTATE_HANDLE_OFFSET / this.viewTransform.scale },
+        };
+    }
+
+    // Method to start a lasso, or a move/scale/rotate when pressing on the selection or its handles
+    startSelectionGesture(point: Point) {
+        const bounds = this.getSelectionBounds();
+        if (bounds) {
+            const handles = this.getSelectionHandles(bounds);
+            const handleSize = SELECTION_HANDLE_SIZE / this.viewTransform.scale;
+            const isNear = (handle: Point) => Math.hypot(handle.x - point.x, handle.y - point.y) <= handleSize;
+            const indices = this.selectedStrokes.map((stroke) => this.strokes.indexOf(stroke)).filter((index) => index !== -1);
+            const drag = { start: point, bounds, baseStrokes: this.strokes, indices };
+
+            if (isNear(handles.rotate)) {
+                this.selectionDrag = { ...drag, mode: 'rotate' };
+                return;
+            }
+            const cornerIndex = handles.corners.findIndex(isNear);
+            if (cornerIndex !== -1) {
+                // Scale around the opposite corner
+                const anchor = handles.corners[(cornerIndex + 2) % 4];
+                this.selectionDrag = { ...drag, mode: 'scale', anchor };
+                return;
+            }
+            if (point.x >= bounds.minX && point.x <= bounds.maxX && point.y >= bounds.minY && point.y <= bounds.maxY) {
+                this.selectionDrag = { ...drag, mode: 'move' };
+                return;
+            }
+        }
+
+        // Pressing outside the selection starts a new lasso
+        this.selectedStrokes = [];
+        this.lassoPoints = [point];
+        this.redraw();
+    }
+
+    // Method to extend the lasso or apply the move/scale/rotate in progress
+    updateSelectionGesture(point: Point) {
+        if (this.lassoPoints) {
+            this.lassoPoints.push(point);
+            this.redraw();
+            return;
+        }
+
+        const drag = this.selectionDrag;
+        if (!drag) {
+            return;
+        }
+
+        const { bounds, start } = drag;
+        let matrix: AffineMatrix;
+        let sizeScale = 1;
+        if (drag.mode === 'move') {
+            matrix = [1, 0, 0, 1, point.x - start.x, point.y - start.y];
+        } else if (drag.mode === 'scale' && drag.anchor) {
+            const anchor = drag.anchor;
+            const scaleX = (start.x - anchor.x) === 0 ? 1 : (point.x - anchor.x) / (start.x - anchor.x);
+            const scaleY = (start.y - anchor.y) === 0 ? 1 : (point.y - anchor.y) / (start.y - anchor.y);
+            matrix = [scaleX, 0, 0, scaleY, anchor.x - anchor.x * scaleX, anchor.y - anchor.y * scaleY];
+            sizeScale = Math.sqrt(Math.abs(scaleX * scaleY));
+        } else {
+            const cx = (bounds.minX + bounds.maxX) / 2;
+            const cy = (bounds.minY + bounds.maxY) / 2;
+            const angle = Math.atan2(point.y - cy, point.x - cx) - Math.atan2(start.y - cy, start.x - cx);
+            const cos = Math.cos(angle);
+            const sin = Math.sin(angle);
+            matrix = [cos, sin, -sin, cos, cx - cx * cos + cy * sin, cy - cx * sin - cy * cos];
+        }
+
+        // Always transform the strokes as they were when the drag started
+        const newStrokes = drag.baseStrokes.slice();
+        drag.indices.forEach((index) => {
+            newStrokes[index] = transformStroke(drag.baseStrokes[index], matrix, sizeScale);
+        });
+        this.beginChange(); // The whole drag is undone at once
+        this.strokes = newStrokes;
+        this.selectedStrokes = drag.indices.map((index) => newStrokes[index]);
+        this.redraw();
+    }
+
+    // Method to select the strokes inside the lasso, or save a finished move/scale/rotate
+    finishSelectionGesture() {
+        if (this.lassoPoints) {
+            const lasso = this.lassoPoints;
+            this.lassoPoints = null;
+            const lassoBounds = getPointsBounds(lasso);
+            if (lasso.length < 3 || (lassoBounds.maxX - lassoBounds.minX < 3 && lassoBounds.maxY - lassoBounds.minY < 3)) {
+                // A click selects the topmost stroke under the pointer
+                const clicked = this.strokes.slice().reverse().find((stroke) => strokeTouchesSegment(stroke, lasso[0], lasso[0], 2));
+                this.selectedStrokes = clicked ? [clicked] : [];
+            } else {
+                // Strokes with most of their points inside the lasso are selected
+                this.selectedStrokes = this.strokes.filter((stroke) => {
+                    const geometry = getStrokeGeometry(stroke);
+                    const inside = geometry.filter((strokePoint) => isPointInPolygon(strokePoint, lasso)).length;
+                    return inside > 0 && inside >= geometry.length / 2;
                 });
+            }
+            this.redraw();
+        }
 
-                penControlItem.appendChild(penButton);
-                controlGroup.appendChild(penControlItem);
+        if (this.selectionDrag) {
+            this.selectionDrag = null;
+            if (this.pendingHistorySnapshot && this.pendingHistorySnapshot !== this.strokes) {
+                // Moved strokes attach to the text they were moved onto
+                if (this.textAnchoring) {
+                    const reanchored = new Map(this.selectedStrokes.map((stroke) => [stroke, this.anchorStrokeToText(stroke)]));
+                    this.strokes = this.strokes.map((stroke) => reanchored.get(stroke) || stroke);
+                    this.selectedStrokes = Array.from(reanchored.values());
+                }
+
+                // Save strokes after transforming the selection
+                this.saveStrokes();
             }
+        }
+    }
 
-            // Eraser Button
-            const eraserControlItem = document.createElement('div');
-            eraserControlItem.classList.add('canvas-control-item');
+    // Method to replace the selected strokes, keeping the replacements selected
+    updateSelection(replace: (stroke: Stroke) => Stroke) {
+        const replacements = new Map(this.selectedStrokes.map((stroke) => [stroke, replace(stroke)]));
+        const newStrokes = this.strokes.map((stroke) => replacements.get(stroke) || stroke);
+        this.selectedStrokes = Array.from(replacements.values());
+        this.commitStrokes(newStrokes);
+    }
 
-            const eraserButton = document.createElement('button');
-            eraserButton.type = 'button';
-            eraserButton.classList.add('clickable-icon', 'view-action');
-            setIcon(eraserButton, 'eraser'); // Use an eraser icon
+    // Method to delete the selected strokes
+    deleteSelection() {
+        if (this.selectedStrokes.length === 0) {
+            return;
+        }
+        const newStrokes = this.strokes.filter((stroke) => !this.selectedStrokes.includes(stroke));
+        this.selectedStrokes = [];
+        this.commitStrokes(newStrokes);
+    }
 
-            eraserButton.setAttribute('aria-label', 'Eraser');
-            eraserButton.setAttribute('title', 'Eraser');
+    // Method to copy the selected strokes next to the originals and select the copies
+    duplicateSelection() {
+        if (this.selectedStrokes.length === 0) {
+            return;
+        }
+        const offset = SELECTION_DUPLICATE_OFFSET;
+        const copies = this.selectedStrokes.map((stroke) => this.anchorStrokeToText(transformStroke(stroke, [1, 0, 0, 1, offset, offset], 1)));
+        this.selectedStrokes = copies;
+        this.commitStrokes([...this.strokes, ...copies]);
+    }
 
-            // Handle eraser button click
-            eraserButton.addEventListener('click', (event) => {
-                event.stopPropagation(); // Prevent event bubbling
+    // Method to change the color of the selected strokes
+    recolorSelection(color: string) {
+        if (this.selectedStrokes.length === 0) {
+            return;
+        }
+        this.updateSelection((stroke) => ({ ...stroke, color }));
+    }
+
+    // Method to outline strokes that lost their anchor text
+    drawMissingAnchorMarkers(strokes: Stroke[]) {
+        this.ctx.save();
+        this.ctx.strokeStyle = MISSING_ANCHOR_COLOR;
+        this.ctx.lineWidth = 1 / this.viewTransform.scale;
+        this.ctx.setLineDash([3, 3]);
+        strokes.forEach((stroke) => {
+            const bounds = getStrokesBounds([stroke]);
+            if (bounds) {
+                this.ctx.strokeRect(bounds.minX - 2, bounds.minY - 2, bounds.maxX - bounds.minX + 4, bounds.maxY - bounds.minY + 4);
+            }
+        });
+        this.ctx.restore();
+    }
+
+    // Method to draw the lasso path and the selection box with its handles
+    drawSelectionOverlay() {
+        const accentColor = getComputedStyle(document.body).getPropertyValue('--interactive-accent').trim() || '#7f6df2';
+        this.ctx.save();
+        this.ctx.strokeStyle = accentColor;
+        // The outlines and handles keep their size on screen regardless of zoom
+        const scale = this.viewTransform.scale;
+        this.ctx.lineWidth = 1 / scale;
+        this.ctx.setLineDash([4 / scale, 4 / scale]);
+
+        if (this.lassoPoints && this.lassoPoints.length > 1) {
+            this.ctx.beginPath();
+            this.ctx.moveTo(this.lassoPoints[0].x, this.lassoPoints[0].y);
+            this.lassoPoints.forEach((point) => this.ctx.lineTo(point.x, point.y));
+            this.ctx.closePath();
+            this.ctx.stroke();
+        }
+
+        const bounds = this.getSelectionBounds();
+        if (bounds) {
+            const handles = this.getSelectionHandles(bounds);
+            this.ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+            this.ctx.beginPath();
+            this.ctx.moveTo((bounds.minX + bounds.maxX) / 2, bounds.minY);
+            this.ctx.lineTo(handles.rotate.x, handles.rotate.y);
+            this.ctx.stroke();
+
+            this.ctx.setLineDash([]);
+            this.ctx.fillStyle = '#ffffff';
+            const handleSize = SELECTION_HANDLE_SIZE / scale;
+            const half = handleSize / 2;
+            handles.corners.forEach((corner) => {
+                this.ctx.fillRect(corner.x - half, corner.y - half, handleSize, handleSize);
+                this.ctx.strokeRect(corner.x - half, corner.y - half, handleSize, handleSize);
+            });
+            this.ctx.beginPath();
+            this.ctx.arc(handles.rotate.x, handles.rotate.y, half, 0, Math.PI * 2);
+            this.ctx.fill();
+            this.ctx.stroke();
+        }
+
+        this.ctx.restore();
+    }
+
+    // Method to render the strokes inside the given bounds onto a new canvas, highlighters below the ink
+    renderToImage(bounds: Bounds, scale: number): HTMLCanvasElement {
+        const image = document.createElement('canvas');
+        image.width = Math.max(1, Math.ceil((bounds.maxX - bounds.minX) * scale));
+        image.height = Math.max(1, Math.ceil((bounds.maxY - bounds.minY) * scale));
+        const ctx = image.getContext('2d');
+        if (!ctx) {
+            throw new Error('Failed to get 2d context for export canvas');
+        }
+        ctx.scale(scale, scale);
+        ctx.translate(-bounds.minX, -bounds.minY);
+
+        ctx.globalCompositeOperation = 'multiply';
+        this.strokes.filter((stroke) => stroke.type === 'highlighter').forEach((stroke) => this.drawStroke(stroke, ctx));
+        ctx.globalCompositeOperation = 'source-over';
+        this.strokes.filter((stroke) => stroke.type !== 'highlighter').forEach((stroke) => this.drawStroke(stroke, ctx));
+        return image;
+    }
+
+    // Method to get the layer a stroke is drawn on
+    getContextForStroke(stroke: Stroke): CanvasRenderingContext2D {
+        return stroke.type === 'highlighter' ? this.highlightCtx : this.ctx;
+    }
+
+    // Method to redraw the live stroke at the next frame, at most once per frame
+    scheduleRedraw() {
+        if (this.redrawFrame !== null) {
+            return;
+        }
+        this.redrawFrame = window.requestAnimationFrame(() => {
+            this.redrawFrame = null;
+            this.redraw();
+        });
+    }
+
+    redraw() {
+        if (this.redrawFrame !== null) {
+            window.cancelAnimationFrame(this.redrawFrame);
+            this.redrawFrame = null;
+        }
+
+        // Bring the committed strokes up to date, then show them as they are
+        this.updateCaches();
+        this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        this.ctx.drawImage(this.inkCache, 0, 0);
+        this.highlightCtx.setTransform(1, 0, 0, 1, 0, 0);
+        this.highlightCtx.globalCompositeOperation = 'source-over';
+        this.highlightCtx.clearRect(0, 0, this.highlightCanvas.width, this.highlightCanvas.height);
+        this.highlightCtx.drawImage(this.highlightCache, 0, 0);
+
+        // Resizing the canvas resets the context, so the transform and blending are applied on every redraw
+        this.applyViewTransform(this.ctx);
+        this.applyViewTransform(this.highlightCtx);
+        this.highlightCtx.globalCompositeOperation = 'multiply';
+
+        // Draw current stroke, including the predicted points
+        if (this.currentStroke) {
+            const liveStroke = this.predictedPoints.length > 0
+                ? { ...this.currentStroke, points: [...this.currentStroke.points, ...this.predictedPoints] }
+                : this.currentStroke;
+            this.drawStroke(liveStroke);
+        }
+
+        // Draw the selection on top, forgetting strokes that were removed elsewhere (e.g. in another view)
+        if (this.selectedStrokes.length > 0) {
+            this.selectedStrokes = this.selectedStrokes.filter((stroke) => this.strokes.includes(stroke));
+        }
+        if (this.selectedStrokes.length > 0 || this.lassoPoints) {
+            this.drawSelectionOverlay();
+        }
+
+        // Flag strokes whose anchor text was deleted
+        const unanchoredStrokes = this.strokes.filter((stroke) => stroke.anchor?.missing);
+        if (unanchoredStrokes.length > 0) {
+            this.drawMissingAnchorMarkers(unanchoredStrokes);
+        }
+    }
+
+    // Method to map stroke coordinates to backing store pixels on a context
+    applyViewTransform(ctx: CanvasRenderingContext2D) {
+        const { x, y, scale } = this.viewTransform;
+        const ratio = this.pixelRatio;
+        ctx.setTransform(scale * ratio, 0, 0, scale * ratio, x * ratio, y * ratio);
+    }
+
+    // Method to redraw the committed strokes that changed since the caches were last drawn
+    updateCaches() {
+        if (this.inkCache.width !== this.canvas.width || this.inkCache.height !== this.canvas.height) {
+            this.inkCache.width = this.highlightCache.width = this.canvas.width;
+            this.inkCache.height = this.highlightCache.height = this.canvas.height;
+            this.cachedStrokes = null;
+        }
+        if (this.cachedStrokes === this.strokes) {
+            return;
+        }
+
+        // Only the area of added and removed strokes needs redrawing, unless that's most of the canvas
+        let region: Bounds | null = null;
+        if (this.cachedStrokes) {
+            const previous = new Set(this.cachedStrokes);
+            const next = new Set(this.strokes);
+            const changes = [
+                ...this.cachedStrokes.filter((stroke) => !next.has(stroke)),
+                ...this.strokes.filter((stroke) => !previous.has(stroke)),
+            ];
+            region = getStrokesBounds(changes);
+            if (!region) {
+                this.cachedStrokes = this.strokes;
+                return;
+            }
+            const scale = this.viewTransform.scale;
+            const area = (region.maxX - region.minX) * (region.maxY - region.minY) * scale * scale;
+            if (area > this.cssWidth * this.cssHeight * MAX_DIRTY_REGION_SHARE) {
+                region = null;
+            }
+        }
+
+        this.renderCache(this.inkCacheCtx, this.strokes.filter((stroke) => stroke.type !== 'highlighter'), region);
+        this.renderCache(this.highlightCacheCtx, this.strokes.filter((stroke) => stroke.type === 'highlighter'), region);
+        this.cachedStrokes = this.strokes;
+    }
+
+    // Method to redraw a cache, or only the strokes within a region of it
+    renderCache(ctx: CanvasRenderingContext2D, strokes: Stroke[], region: Bounds | null) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalCompositeOperation = 'source-over';
+        if (!region) {
+            ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        }
+        this.applyViewTransform(ctx);
+        ctx.save();
+
+        if (region) {
+            // Leave room for antialiasing at the edges of the removed strokes
+            const padding = 2 / this.viewTransform.scale;
+            const x = region.minX - padding;
+            const y = region.minY - padding;
+            const width = region.maxX - region.minX + padding * 2;
+            const height = region.maxY - region.minY + padding * 2;
+            ctx.beginPath();
+            ctx.rect(x, y, width, height);
+            ctx.clip();
+            ctx.clearRect(x, y, width, height);
+            strokes = strokes.filter((stroke) => boundsIntersect(getCachedStrokeBounds(stroke), region));
+        }
+
+        if (ctx === this.highlightCacheCtx) {
+            ctx.globalCompositeOperation = 'multiply';
+        }
+        strokes.forEach((stroke) => this.drawStroke(stroke, ctx));
+        ctx.restore();
+    }
+
+    // Method to draw a stroke; highlighter strokes go to the multiply layer unless a context is given
+    drawStroke(stroke: Stroke, ctx: CanvasRenderingContext2D = this.getContextForStroke(stroke)) {
+        if (isShape(stroke)) {
+            this.drawShape(stroke, ctx);
+            return;
+        }
+        if (stroke.points.length < 2) return;
+
+        if (stroke.type === 'highlighter') {
+            this.drawHighlighterStroke(stroke, ctx);
+            return;
+        }
+
+        // Strokes recorded with pressure are filled outlines; older strokes keep their fixed width
+        if (isPressureSensitive(stroke)) {
+            this.drawVariableWidthStroke(stroke, ctx);
+            return;
+        }
+
+        ctx.save();
+
+        // Ensure lineCap and lineJoin are set to 'round'
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+
+        ctx.lineWidth = stroke.size;
+        ctx.strokeStyle = stroke.color;
+        ctx.globalAlpha = stroke.opacity;
+
+        ctx.beginPath();
+
+        const points = stroke.points;
+        const smoothing = stroke.smoothing;
+
+        ctx.moveTo(points[0].x, points[0].y);
+
+        for (let i = 0; i < points.length - 1; i++) {
+            const curr = points[i];
+            const next = points[i + 1];
+
+            const cpx = curr.x + (next.x - curr.x) * smoothing;
+            const cpy = curr.y + (next.y - curr.y) * smoothing;
+
+            ctx.quadraticCurveTo(curr.x, curr.y, cpx, cpy);
+        }
+
+        // Draw the last line segment
+        const lastPoint = points[points.length - 1];
+        ctx.lineTo(lastPoint.x, lastPoint.y);
+
+        ctx.stroke();
+
+        ctx.restore();
+    }
+
+    // Method to draw a line, arrow, rectangle or ellipse
+    drawShape(shape: Shape, ctx: CanvasRenderingContext2D) {
+        ctx.save();
+        ctx.lineCap = shape.type === 'highlighter' ? 'butt' : 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = shape.size;
+        ctx.strokeStyle = shape.color;
+        ctx.globalAlpha = shape.opacity;
+
+        // All parts go into a single path so the arrow head doesn't darken the shaft
+        ctx.beginPath();
+        getShapePaths(shape).forEach((path) => {
+            ctx.moveTo(path[0].x, path[0].y);
+            for (let i = 1; i < path.length; i++) {
+                ctx.lineTo(path[i].x, path[i].y);
+            }
+        });
+        ctx.stroke();
+
+        ctx.restore();
+    }
+
+    // Method to draw a stroke whose width follows the pressure of its points
+    drawVariableWidthStroke(stroke: Stroke, ctx: CanvasRenderingContext2D) {
+        const outline = getStrokeOutline(stroke);
+
+        ctx.save();
+        ctx.fillStyle = stroke.color;
+        ctx.globalAlpha = stroke.opacity;
+
+        // All parts go into a single path so overlapping parts aren't painted twice
+        ctx.beginPath();
+        outline.circles.forEach((circle) => {
+            ctx.moveTo(circle.x + circle.r, circle.y);
+            ctx.arc(circle.x, circle.y, circle.r, 0, Math.PI * 2);
+        });
+        outline.polygons.forEach((polygon) => {
+            ctx.moveTo(polygon[0].x, polygon[0].y);
+            for (let i = 1; i < polygon.length; i++) {
+                ctx.lineTo(polygon[i].x, polygon[i].y);
+            }
+            ctx.closePath();
+        });
+        ctx.fill('nonzero');
 
-                // Select eraser
-                this.selectedTool = 'eraser';
-                this.updateSelectedTool();
-            });
+        ctx.restore();
+    }
 
-            eraserControlItem.appendChild(eraserButton);
-            controlGroup.appendChild(eraserControlItem);
+    // Method to draw a highlighter stroke swept by a flat chisel tip
+    drawHighlighterStroke(stroke: Stroke, ctx: CanvasRenderingContext2D) {
+        ctx.save();
+        ctx.fillStyle = stroke.color;
+        ctx.globalAlpha = stroke.opacity;
+
+        // A single path filled once, so passes of the same stroke over each other don't darken
+        ctx.beginPath();
+        getHighlighterOutline(stroke).forEach((polygon) => {
+            ctx.moveTo(polygon[0].x, polygon[0].y);
+            for (let i = 1; i < polygon.length; i++) {
+                ctx.lineTo(polygon[i].x, polygon[i].y);
+            }
+            ctx.closePath();
+        });
+        ctx.fill('nonzero');
 
-            // Add controls under the pens and eraser
-            const controlsContainer = document.createElement('div');
-            controlsContainer.classList.add('drawing-controls-container');
-            controlsContainer.style.marginTop = '10px'; // Add some spacing
+        ctx.restore();
+    }
+}
 
-            // Color Picker Control
-            const colorControlItem = document.createElement('div');
-            colorControlItem.classList.add('control-item');
+// Apply an affine transform to the points of a stroke, scaling its width by sizeScale
+function transformStroke(stroke: Stroke, matrix: AffineMatrix, sizeScale: number): Stroke {
+    const [a, b, c, d, e, f] = matrix;
+    return {
+        ...stroke,
+        size: stroke.size * sizeScale,
+        points: stroke.points.map((point) => ({
+            ...point,
+            x: a * point.x + c * point.y + e,
+            y: b * point.x + d * point.y + f,
+        })),
+    };
+}
 
-            const colorLabel = document.createElement('label');
-            colorLabel.innerText = 'Color';
-            colorLabel.style.display = 'block';
-            colorLabel.style.fontSize = '12px';
-            colorLabel.style.marginBottom = '2px';
-            colorLabel.style.textAlign = 'center';
+// Drop points of a freehand stroke with Ramer-Douglas-Peucker, keeping every point whose position or
+// width differs from the simplified stroke by more than the tolerance
+function simplifyStroke(stroke: Stroke, tolerance: number): Stroke {
+    const points = stroke.points;
+    if (tolerance <= 0 || points.length <= 2) {
+        return stroke;
+    }
+    const pressureSensitive = isPressureSensitive(stroke);
+    const keep = new Array<boolean>(points.length).fill(false);
+    keep[0] = keep[points.length - 1] = true;
+
+    // Iterative to avoid deep recursion on long strokes
+    const ranges: [number, number][] = [[0, points.length - 1]];
+    while (ranges.length > 0) {
+        const range = ranges.pop();
+        if (!range) {
+            break;
+        }
+        const [first, last] = range;
+        let maxDeviation = 0;
+        let maxIndex = -1;
+        for (let i = first + 1; i < last; i++) {
+            let deviation = distanceToSegment(points[i], points[first], points[last]);
+            if (pressureSensitive) {
+                const t = (i - first) / (last - first);
+                const width = getPointWidth(stroke.size, points[i]);
+                const interpolated = lerp(getPointWidth(stroke.size, points[first]), getPointWidth(stroke.size, points[last]), t);
+                deviation = Math.max(deviation, Math.abs(width - interpolated) / 2);
+            }
+            if (deviation > maxDeviation) {
+                maxDeviation = deviation;
+                maxIndex = i;
+            }
+        }
+        if (maxIndex !== -1 && maxDeviation > tolerance) {
+            keep[maxIndex] = true;
+            ranges.push([first, maxIndex], [maxIndex, last]);
+        }
+    }
 
-            const colorPickerInput = document.createElement('input');
-            colorPickerInput.type = 'color';
-            colorPickerInput.style.width = '40px';
-            colorPickerInput.style.height = '25px';
-            colorPickerInput.style.padding = '0';
-            colorPickerInput.style.border = 'none';
-            colorPickerInput.style.cursor = 'pointer';
-            colorPickerInput.style.display = 'block';
+    return { ...stroke, points: points.filter((point, index) => keep[index]) };
+}
 
-            colorControlItem.appendChild(colorLabel);
-            colorControlItem.appendChild(colorPickerInput);
-            controlsContainer.appendChild(colorControlItem);
+// Pack the points of a stroke into a base64 string of delta-encoded integers; strokes whose points
+// don't all carry the same optional fields are stored as they are
+function encodeStroke(stroke: Stroke): StoredStroke {
+    const points = stroke.points;
+    // Pens only report tilt while tilted, so once a point has it the upright points are stored with a tilt of 0,
+    // which draws the same
+    const hasTilt = points.some((point) => point.tiltX !== undefined && point.tiltY !== undefined);
+    const hasField = (field: keyof Point) => points.length > 0 &&
+        ((hasTilt && (field === 'tiltX' || field === 'tiltY')) || points.every((point) => point[field] !== undefined));
+    const fields = (['pressure', 'tiltX', 'tiltY', 't'] as (keyof Point)[]).filter(hasField);
+    const isConsistent = (['pressure', 'tiltX', 'tiltY', 't'] as (keyof Point)[])
+        .every((field) => fields.includes(field) || points.every((point) => point[field] === undefined));
+    if (!isConsistent) {
+        return stroke;
+    }
 
-            // Pen Size Control
-            const sizeControlItem = document.createElement('div');
-            sizeControlItem.classList.add('control-item');
+    const scales: { [field: string]: number } = {
+        x: POINT_COORDINATE_PRECISION,
+        y: POINT_COORDINATE_PRECISION,
+        pressure: POINT_PRESSURE_PRECISION,
+        tiltX: 1,
+        tiltY: 1,
+        t: 1,
+    };
+    const columns: (keyof Point)[] = ['x', 'y', ...fields];
+    const bytes: number[] = [];
+    const previous = columns.map(() => 0);
+    points.forEach((point) => {
+        columns.forEach((field, column) => {
+            const value = Math.round(((point[field] as number | undefined) ?? 0) * scales[field]);
+            writeVarint(bytes, value - previous[column]);
+            previous[column] = value;
+        });
+    });
 
-            const sizeLabel = document.createElement('label');
-            sizeLabel.innerText = 'Size';
-            sizeLabel.style.display = 'block';
-            sizeLabel.style.fontSize = '12px';
-            sizeLabel.style.marginBottom = '2px';
-            sizeLabel.style.textAlign = 'center';
+    const rest: Omit<Stroke, 'points'> & { points?: Point[] } = { ...stroke };
+    delete rest.points;
+    return { ...rest, fields: fields.join(','), data: arrayBufferToBase64(new Uint8Array(bytes).buffer) };
+}
 
-            const sizeInput = document.createElement('input');
-            sizeInput.type = 'number';
-            sizeInput.min = '1';
-            sizeInput.max = '50';
-            sizeInput.step = '1';
-            sizeInput.style.width = '40px';
-            sizeInput.style.padding = '2px';
-            sizeInput.style.fontSize = '12px';
-            sizeInput.style.boxSizing = 'border-box';
-            sizeInput.style.display = 'block';
+// Unpack a stored stroke, accepting both packed strokes and plain point lists
+function decodeStroke(stored: StoredStroke): Stroke {
+    if (!('data' in stored)) {
+        return stored;
+    }
+    const { data, fields: fieldList, ...rest } = stored;
+    const fields = (fieldList ? fieldList.split(',') : []) as (keyof Point)[];
+    const columns: (keyof Point)[] = ['x', 'y', ...fields];
+    const scales: { [field: string]: number } = {
+        x: POINT_COORDINATE_PRECISION,
+        y: POINT_COORDINATE_PRECISION,
+        pressure: POINT_PRESSURE_PRECISION,
+    };
+
+    const bytes = new Uint8Array(base64ToArrayBuffer(data));
+    const points: Point[] = [];
+    const previous = columns.map(() => 0);
+    const cursor = { offset: 0 };
+    while (cursor.offset < bytes.length) {
+        const point: Point = { x: 0, y: 0 };
+        columns.forEach((field, column) => {
+            previous[column] += readVarint(bytes, cursor);
+            point[field] = previous[column] / (scales[field] || 1);
+        });
+        points.push(point);
+    }
+    return { ...rest, points };
+}
 
-            sizeControlItem.appendChild(sizeLabel);
-            sizeControlItem.appendChild(sizeInput);
-            controlsContainer.appendChild(sizeControlItem);
+// Pack the strokes and recent history of a node's drawing as they are written to its sidecar file
+function encodeNodeDrawingData(nodeData: NodeDrawingData): StoredNodeDrawingData {
+    return {
+        ...nodeData,
+        strokes: nodeData.strokes.map(encodeStroke),
+        history: nodeData.history && encodeHistory(nodeData.history, nodeData.strokes),
+    };
+}
 
-            // Smoothness Control
-            const smoothnessControlItem = document.createElement('div');
-            smoothnessControlItem.classList.add('control-item');
+// Pack the most recent undo and redo steps, storing each stroke once however many steps contain it
+function encodeHistory(history: DrawingHistory, strokes: Stroke[]): StoredHistory | undefined {
+    const undoStack = history.undoStack.slice(-PERSISTED_HISTORY_LENGTH);
+    const redoStack = history.redoStack.slice(-PERSISTED_HISTORY_LENGTH);
+    if (undoStack.length === 0 && redoStack.length === 0) {
+        return undefined;
+    }
 
-            const smoothnessLabel = document.createElement('label');
-            smoothnessLabel.innerText = 'Smooth';
-            smoothnessLabel.style.display = 'block';
-            smoothnessLabel.style.fontSize = '12px';
-            smoothnessLabel.style.marginBottom = '2px';
-            smoothnessLabel.style.textAlign = 'center';
+    const indices = new Map<Stroke, number>();
+    strokes.forEach((stroke, i) => indices.set(stroke, i));
+    const pool: StoredStroke[] = [];
+    const toIndices = (step: Stroke[]) => step.map((stroke) => {
+        let index = indices.get(stroke);
+        if (index === undefined) {
+            index = strokes.length + pool.length;
+            pool.push(encodeStroke(stroke));
+            indices.set(stroke, index);
+        }
+        return index;
+    });
+    return { strokes: pool, undo: undoStack.map(toIndices), redo: redoStack.map(toIndices) };
+}
 
-            const smoothnessInput = document.createElement('input');
-            smoothnessInput.type = 'number';
-            smoothnessInput.min = '0';
-            smoothnessInput.max = '1';
-            smoothnessInput.step = '0.01';
-            smoothnessInput.style.width = '40px';
-            smoothnessInput.style.padding = '2px';
-            smoothnessInput.style.fontSize = '12px';
-            smoothnessInput.style.boxSizing = 'border-box';
-            smoothnessInput.style.display = 'block';
+// Unpack a saved history; steps share the decoded stroke objects like they did before saving
+function decodeHistory(stored: StoredHistory, strokes: Stroke[]): DrawingHistory {
+    const pool = [...strokes, ...decodeStrokes(stored.strokes)];
+    const toStrokes = (step: number[]) => step.map((index) => pool[index]).filter((stroke) => stroke !== undefined);
+    return { undoStack: stored.undo.map(toStrokes), redoStack: stored.redo.map(toStrokes) };
+}
 
-            smoothnessControlItem.appendChild(smoothnessLabel);
-            smoothnessControlItem.appendChild(smoothnessInput);
-            controlsContainer.appendChild(smoothnessControlItem);
+function decodeStrokes(stored: StoredStroke[]): Stroke[] {
+    return Array.isArray(stored) ? stored.map(decodeStroke) : [];
+}
 
-            // Opacity Control
-            const opacityControlItem = document.createElement('div');
-            opacityControlItem.classList.add('control-item');
+// Append a signed integer as a zigzag-encoded LEB128 varint
+function writeVarint(bytes: number[], value: number) {
+    let unsigned = value < 0 ? -value * 2 - 1 : value * 2;
+    while (unsigned >= 0x80) {
+        bytes.push((unsigned % 0x80) | 0x80);
+        unsigned = Math.floor(unsigned / 0x80);
+    }
+    bytes.push(unsigned);
+}
 
-            const opacityLabel = document.createElement('label');
-            opacityLabel.innerText = 'Opacity';
-            opacityLabel.style.display = 'block';
-            opacityLabel.style.fontSize = '12px';
-            opacityLabel.style.marginBottom = '2px';
-            opacityLabel.style.textAlign = 'center';
-            
-            const opacityInput = document.createElement('input');
-            opacityInput.type = 'number';
-            opacityInput.min = '0';
-            opacityInput.max = '1';
-            opacityInput.step = '0.01';
-            opacityInput.style.width = '40px';
-            opacityInput.style.padding = '2px';
-            opacityInput.style.fontSize = '12px';
-            opacityInput.style.boxSizing = 'border-box';
-            opacityInput.style.display = 'block';
+function readVarint(bytes: Uint8Array, cursor: { offset: number }): number {
+    let unsigned = 0;
+    let multiplier = 1;
+    while (cursor.offset < bytes.length) {
+        const byte = bytes[cursor.offset++];
+        unsigned += (byte & 0x7f) * multiplier;
+        if (byte < 0x80) {
+            break;
+        }
+        multiplier *= 0x80;
+    }
+    return unsigned % 2 === 1 ? -(unsigned + 1) / 2 : unsigned / 2;
+}
 
-            opacityControlItem.appendChild(opacityLabel);
-            opacityControlItem.appendChild(opacityInput);
-            controlsContainer.appendChild(opacityControlItem);
+// Bounds of committed strokes, which are never modified in place
+const strokeBoundsCache = new WeakMap<Stroke, Bounds>();
 
-            controlGroup.appendChild(controlsContainer);
-            
-            // Append the control group to the toolbar
-            toolbar.appendChild(controlGroup);
+function getCachedStrokeBounds(stroke: Stroke): Bounds | null {
+    let bounds = strokeBoundsCache.get(stroke) || null;
+    if (!bounds) {
+        bounds = getStrokesBounds([stroke]);
+        if (bounds) {
+            strokeBoundsCache.set(stroke, bounds);
+        }
+    }
+    return bounds;
+}
 
-            // Disable controls if no pen is selected
-            const updateControls = () => {
-                const selectedTool = this.selectedTool;
-                if (typeof selectedTool === 'number') {
-                    // Pen is selected
-                    const penIndex = selectedTool;
-                    // Enable controls
-                    colorPickerInput.disabled = false;
-                    sizeInput.disabled = false;
-                    smoothnessInput.disabled = false;
-                    opacityInput.disabled = false;
-            
-                    // Set controls to pen's properties
-                    colorPickerInput.value = this.settings.penColors[penIndex];
-                    sizeInput.value = this.settings.penSizes[penIndex].toString();
-                    smoothnessInput.value = this.settings.penSmoothness[penIndex].toString();
-                    opacityInput.value = this.settings.penOpacities[penIndex].toString();
+function boundsIntersect(a: Bounds | null, b: Bounds): boolean {
+    return !!a && a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
 
-                } else if (selectedTool === 'eraser') {
-                    // Eraser is selected
-                    // Disable color picker, enable others if needed
-                    colorPickerInput.disabled = true;
-                    sizeInput.disabled = true;
-                    smoothnessInput.disabled = true;
+// Bounding box of a segment grown by a margin on every side
+function getSegmentBounds(from: Point, to: Point, margin: number): Bounds {
+    return {
+        minX: Math.min(from.x, to.x) - margin,
+        minY: Math.min(from.y, to.y) - margin,
+        maxX: Math.max(from.x, to.x) + margin,
+        maxY: Math.max(from.y, to.y) + margin,
+    };
+}
 
-                } else {
-                    // Disable controls for eraser or no tool selected
-                    colorPickerInput.disabled = true;
-                    sizeInput.disabled = true;
-                    smoothnessInput.disabled = true;
-                    opacityInput.disabled = true;
-                }
-            };
+// Bounding box of a list of points
+function getPointsBounds(points: Point[]): Bounds {
+    return {
+        minX: Math.min(...points.map((point) => point.x)),
+        minY: Math.min(...points.map((point) => point.y)),
+        maxX: Math.max(...points.map((point) => point.x)),
+        maxY: Math.max(...points.map((point) => point.y)),
+    };
+}
 
-            // Call updateControls initially
-            updateControls();
+// Bounding box of a list of strokes including their width, or null for no strokes
+function getStrokesBounds(strokes: Stroke[]): Bounds | null {
+    if (strokes.length === 0) {
+        return null;
+    }
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    strokes.forEach((stroke) => {
+        const halfWidth = getStrokeHalfWidth(stroke);
+        const strokeBounds = getPointsBounds(getStrokeGeometry(stroke));
+        bounds.minX = Math.min(bounds.minX, strokeBounds.minX - halfWidth);
+        bounds.minY = Math.min(bounds.minY, strokeBounds.minY - halfWidth);
+        bounds.maxX = Math.max(bounds.maxX, strokeBounds.maxX + halfWidth);
+        bounds.maxY = Math.max(bounds.maxY, strokeBounds.maxY + halfWidth);
+    });
+    return bounds;
+}
 
-            // Update controls when selectedTool changes
-            this.updateSelectedTool = () => {
-                // Update pen buttons
-                const buttons = controlGroup.querySelectorAll('button');
-                // Text button is the first button
-                const textButton = buttons[0];
-                if (this.selectedTool === null) {
-                    textButton.classList.add('active');
-                } else {
-                    textButton.classList.remove('active');
-                }
+// Ray casting test for whether a point lies inside a polygon
+function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
 
-                // Pen buttons
-                for (let i = 0; i < this.settings.numPens; i++) {
-                    const penButton = buttons[i + 1]; // +1 because of the text button
-                    if (this.selectedTool === i) {
-                        penButton.classList.add('active');
-                    } else {
-                        penButton.classList.remove('active');
-                    }
-                }
+// Check whether a shape is smaller than the given size in both directions, as drawn rather than by its
+// control points, which for an ellipse only reach from its center
+function isShapeTooSmall(shape: Shape, minSize: number): boolean {
+    const bounds = getPointsBounds(getStrokeGeometry(shape));
+    return bounds.maxX - bounds.minX < minSize && bounds.maxY - bounds.minY < minSize;
+}
 
-                // Eraser button
-                const eraserButton = buttons[this.settings.numPens + 1];
-                if (this.selectedTool === 'eraser') {
-                    eraserButton.classList.add('active');
-                } else {
-                    eraserButton.classList.remove('active');
-                }
+function isShape(stroke: Stroke): stroke is Shape {
+    return (stroke as Shape).shape !== undefined;
+}
 
-                updateControls();
-                this.updateDrawingCanvasPointerEvents();
-            };
+// Defining points of a shape stretched from one corner to the opposite one
+function getShapePoints(shape: ShapeKind, start: Point, end: Point): Point[] {
+    switch (shape) {
+        case 'line':
+        case 'arrow':
+            return [start, end];
+        case 'rectangle':
+            return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }];
+        case 'ellipse': {
+            // Center followed by the ends of two conjugate semi-axes, so any affine transform keeps it exact
+            const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+            return [center, { x: end.x, y: center.y }, { x: center.x, y: end.y }];
+        }
+    }
+}
 
-            // Event listeners to update pen properties when controls change
-            colorPickerInput.addEventListener('input', async () => {
-                if (typeof this.selectedTool === 'number') {
-                    const penIndex = this.selectedTool;
-                    this.settings.penColors[penIndex] = colorPickerInput.value;
-                    await this.saveSettings();
-                    // Update pen button color
-                    const penButton = controlGroup.querySelectorAll('button')[penIndex + 1]; // +1 because of the text button
-                    penButton.style.color = colorPickerInput.value;
-                    this.updateDrawingCanvases();
-                }
+// Polylines drawn for a shape
+function getShapePaths(shape: Shape): Point[][] {
+    const points = shape.points;
+    switch (shape.shape) {
+        case 'line':
+            return [[points[0], points[1]]];
+        case 'arrow': {
+            const [start, end] = points;
+            const length = Math.hypot(end.x - start.x, end.y - start.y);
+            if (length === 0) {
+                return [[start, end]];
+            }
+            const headLength = Math.min(length / 2, Math.max(10, shape.size * 3));
+            const angle = Math.atan2(end.y - start.y, end.x - start.x);
+            const barb = (side: number) => ({
+                x: end.x - headLength * Math.cos(angle + side * ARROW_HEAD_ANGLE),
+                y: end.y - headLength * Math.sin(angle + side * ARROW_HEAD_ANGLE),
             });
+            return [[start, end], [barb(1), end, barb(-1)]];
+        }
+        case 'rectangle':
+            return [[...points, points[0]]];
+        case 'ellipse': {
+            const [center, u, v] = points;
+            const outline: Point[] = [];
+            for (let i = 0; i <= ELLIPSE_SEGMENTS; i++) {
+                const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+                outline.push({
+                    x: center.x + (u.x - center.x) * Math.cos(angle) + (v.x - center.x) * Math.sin(angle),
+                    y: center.y + (u.y - center.y) * Math.cos(angle) + (v.y - center.y) * Math.sin(angle),
+                });
+            }
+            return [outline];
+        }
+    }
+}
 
-            sizeInput.addEventListener('change', async () => {
-                if (typeof this.selectedTool === 'number') {
-                    const value = parseInt(sizeInput.value);
-                    if (!isNaN(value) && value >= 1 && value <= 50) {
-                        const penIndex = this.selectedTool;
-                        this.settings.penSizes[penIndex] = value;
-                        await this.saveSettings();
-                        this.updateDrawingCanvases();
-                    } else {
-                        new Notice('Size must be between 1 and 50.');
-                        sizeInput.value = this.settings.penSizes[this.selectedTool as number].toString();
-                    }
-                }
-            });
+// Points along which a stroke or shape is drawn, used for hit-testing and bounds
+function getStrokeGeometry(stroke: Stroke): Point[] {
+    if (!isShape(stroke)) {
+        return stroke.points;
+    }
+    return getShapePaths(stroke).reduce((all: Point[], path) => all.concat(path), []);
+}
 
-            smoothnessInput.addEventListener('change', async () => {
-                if (typeof this.selectedTool === 'number') {
-                    const value = parseFloat(smoothnessInput.value);
-                    if (!isNaN(value) && value >= 0 && value <= 1) {
-                        const penIndex = this.selectedTool;
-                        this.settings.penSmoothness[penIndex] = value;
-                        await this.saveSettings();
-                        this.updateDrawingCanvases();
-                    } else {
-                        new Notice('Smoothness must be between 0 and 1.');
-                        smoothnessInput.value = this.settings.penSmoothness[this.selectedTool as number].toString();
-                    }
-                }
-            });
+// Convert a shape into a plain stroke following its outline
+function shapeToStroke(shape: Shape): Stroke {
+    return copyPenTypeAndAnchor(shape, {
+        color: shape.color,
+        size: shape.size,
+        smoothing: 0,
+        opacity: shape.opacity,
+        points: getStrokeGeometry(shape),
+    });
+}
 
-            opacityInput.addEventListener('change', async () => {
-                if (typeof this.selectedTool === 'number') {
-                    const value = parseFloat(opacityInput.value);
-                    if (!isNaN(value) && value >= 0 && value <= 1) {
-                        const penIndex = this.selectedTool;
-                        this.settings.penOpacities[penIndex] = value;
-                        await this.saveSettings();
-                        this.updateDrawingCanvases();
-                    } else {
-                        new Notice('Opacity must be between 0 and 1.');
-                        opacityInput.value = this.settings.penOpacities[this.selectedTool as number].toString();
-                    }
-                }
-            });
+// Keep the pen type and text anchor of a stroke on a stroke or shape made from it, so highlighters still
+// multiply onto the text and anchored ink keeps following it
+function copyPenTypeAndAnchor<T extends Stroke>(source: Stroke, target: T): T {
+    if (source.type !== undefined) {
+        target.type = source.type;
+    }
+    if (source.anchor) {
+        target.anchor = source.anchor;
+    }
+    return target;
+}
+
+// Recognize a freehand stroke as a line, arrow, rectangle or ellipse, or return null
+function recognizeShape(stroke: Stroke): Shape | null {
+    const points = stroke.points;
+    if (points.length < 3) {
+        return null;
+    }
+    const start = points[0];
+    const end = points[points.length - 1];
+    let pathLength = 0;
+    for (let i = 1; i < points.length; i++) {
+        pathLength += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    if (pathLength < SHAPE_MIN_SIZE) {
+        return null;
+    }
+    const makeShape = (shape: ShapeKind, shapePoints: Point[]): Shape => copyPenTypeAndAnchor(stroke, {
+        color: stroke.color,
+        size: stroke.size,
+        smoothing: 0,
+        opacity: stroke.opacity,
+        shape,
+        points: shapePoints,
+    });
+    const maxDeviation = (from: Point, to: Point, part: Point[]) =>
+        Math.max(...part.map((point) => distanceToSegment(point, from, to)));
+
+    const isClosed = Math.hypot(end.x - start.x, end.y - start.y) < pathLength * SHAPE_CLOSED_TOLERANCE;
+    if (!isClosed) {
+        // Straight line
+        const chord = Math.hypot(end.x - start.x, end.y - start.y);
+        if (maxDeviation(start, end, points) <= chord * SHAPE_STRAIGHT_TOLERANCE) {
+            return makeShape('line', [start, end]);
+        }
+
+        // Arrow: a straight shaft to the farthest point, followed by a short head
+        let tipIndex = 0;
+        points.forEach((point, index) => {
+            if (Math.hypot(point.x - start.x, point.y - start.y) > Math.hypot(points[tipIndex].x - start.x, points[tipIndex].y - start.y)) {
+                tipIndex = index;
+            }
+        });
+        const tip = points[tipIndex];
+        const shaft = Math.hypot(tip.x - start.x, tip.y - start.y);
+        const shaftPoints = points.slice(0, tipIndex + 1);
+        let headLength = 0;
+        for (let i = tipIndex + 1; i < points.length; i++) {
+            headLength += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+        }
+        if (
+            tipIndex < points.length - 1 &&
+            maxDeviation(start, tip, shaftPoints) <= shaft * SHAPE_STRAIGHT_TOLERANCE &&
+            headLength <= shaft * 0.6
+        ) {
+            return makeShape('arrow', [start, tip]);
         }
+        return null;
+    }
+
+    // Closed shapes are fitted to the bounding box; compare how well a rectangle and an ellipse fit
+    const bounds = getPointsBounds(points);
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    if (width < SHAPE_MIN_SIZE || height < SHAPE_MIN_SIZE) {
+        return null;
     }
+    const cx = (bounds.minX + bounds.maxX) / 2;
+    const cy = (bounds.minY + bounds.maxY) / 2;
+    const rx = width / 2;
+    const ry = height / 2;
+    let rectangleError = 0;
+    let ellipseError = 0;
+    points.forEach((point) => {
+        const toSide = Math.min(point.x - bounds.minX, bounds.maxX - point.x, point.y - bounds.minY, bounds.maxY - point.y);
+        rectangleError += Math.max(0, toSide) / Math.min(width, height);
+        const radial = Math.sqrt(((point.x - cx) / rx) ** 2 + ((point.y - cy) / ry) ** 2);
+        ellipseError += Math.abs(radial - 1) / 2;
+    });
+    rectangleError /= points.length;
+    ellipseError /= points.length;
+
+    const corner = { x: bounds.minX, y: bounds.minY };
+    const opposite = { x: bounds.maxX, y: bounds.maxY };
+    if (rectangleError <= ellipseError && rectangleError <= SHAPE_FIT_TOLERANCE) {
+        return makeShape('rectangle', getShapePoints('rectangle', corner, opposite));
+    }
+    if (ellipseError < rectangleError && ellipseError <= SHAPE_FIT_TOLERANCE) {
+        return makeShape('ellipse', getShapePoints('ellipse', corner, opposite));
+    }
+    return null;
+}
 
-    // Method to update the selected tool's UI
-    updateSelectedTool() {
-        // This method will be overridden in addDrawingControlsToCanvas
+// Half the visible width of a stroke, used to hit-test its edge rather than its center line
+function getStrokeHalfWidth(stroke: Stroke): number {
+    if (!isPressureSensitive(stroke)) {
+        return stroke.size / 2;
     }
+    return Math.max(...stroke.points.map((point) => getPointWidth(stroke.size, point))) / 2;
+}
 
-    // Method to update pointer-events of drawing canvases based on selected tool
-    updateDrawingCanvasPointerEvents() {
-        this.drawingCanvases.forEach((drawingCanvasInstance) => {
-            if (this.selectedTool === null) {
-                drawingCanvasInstance.canvas.style.pointerEvents = 'none';
-            } else {
-                drawingCanvasInstance.canvas.style.pointerEvents = 'auto';
-            }
-        });
+// Distance from point p to the segment from a to b
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) {
+        return Math.hypot(p.x - a.x, p.y - a.y);
     }
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
 
-    onunload() {
-        console.log('Unloading Canvas Drawing Node plugin');
+// Shortest distance between the segments a-b and c-d
+function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+    const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+        return 0; // The segments cross
     }
+    return Math.min(
+        distanceToSegment(a, c, d),
+        distanceToSegment(b, c, d),
+        distanceToSegment(c, a, b),
+        distanceToSegment(d, a, b)
+    );
 }
 
-class DrawingCanvas {
-    canvas: HTMLCanvasElement;
-    ctx: CanvasRenderingContext2D;
-    plugin: CanvasDrawingNodePlugin;
-    strokes: Stroke[];
-    undoneStrokes: Stroke[];
-    currentStroke: Stroke | null;
-    nodeId: string; // Reference to the node's unique ID
-    resizeObserver: ResizeObserver;
+// Check whether any part of a stroke lies within radius of the eraser path from one point to another
+function strokeTouchesSegment(stroke: Stroke, from: Point, to: Point, radius: number): boolean {
+    // The cached bounds include the stroke's width, so only the eraser radius is added
+    if (!boundsIntersect(getCachedStrokeBounds(stroke), getSegmentBounds(from, to, radius))) {
+        return false;
+    }
 
-    constructor(
-        plugin: CanvasDrawingNodePlugin,
-        canvas: HTMLCanvasElement,
-        nodeId: string,          // Node ID parameter
-        existingStrokes: Stroke[] // Existing strokes parameter
-    ) {
-        this.canvas = canvas;
-        this.plugin = plugin;
-        this.nodeId = nodeId; // Initialize nodeId
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            throw new Error('Failed to get 2d context for canvas');
+    const reach = radius + getStrokeHalfWidth(stroke);
+    const eraserBounds = getSegmentBounds(from, to, reach);
+    const points = getStrokeGeometry(stroke);
+    if (points.length === 1) {
+        return distanceToSegment(points[0], from, to) <= reach;
+    }
+    for (let i = 0; i < points.length - 1; i++) {
+        if (boundsIntersect(getSegmentBounds(points[i], points[i + 1], 0), eraserBounds) &&
+            segmentDistance(points[i], points[i + 1], from, to) <= reach) {
+            return true;
         }
-        this.ctx = ctx;
-        this.strokes = existingStrokes; // Initialize strokes with existing data
-        this.undoneStrokes = [];
-        this.currentStroke = null;
+    }
+    return false;
+}
 
-        // Event listeners
-        this.canvas.addEventListener('pointerdown', this.onPointerDown.bind(this));
-        this.canvas.addEventListener('pointermove', this.onPointerMove.bind(this));
-        this.canvas.addEventListener('pointerup', this.onPointerUp.bind(this));
-        this.canvas.addEventListener('pointerleave', this.onPointerLeave.bind(this));
+// Interpolate between two stroke points, including their pen data
+function lerpPoint(a: Point, b: Point, t: number): Point {
+    const point: Point = { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) };
+    if (a.pressure !== undefined && b.pressure !== undefined) {
+        point.pressure = lerp(a.pressure, b.pressure, t);
+    }
+    if (a.t !== undefined && b.t !== undefined) {
+        point.t = Math.round(lerp(a.t, b.t, t));
+    }
+    if (a.tiltX !== undefined && a.tiltY !== undefined) {
+        point.tiltX = a.tiltX;
+        point.tiltY = a.tiltY;
+    }
+    return point;
+}
 
-        // Observe nodeElement resize
-        this.resizeObserver = new ResizeObserver(entries => {
-            for (let entry of entries) {
-                const { width, height } = entry.contentRect;
-                this.onResize(width, height);
+// Find the part [t0, t1] of the segment a-b that lies within reach of the eraser path from-to.
+// The distance to a segment is convex along a line, so the covered part is a single interval.
+function getErasedInterval(a: Point, b: Point, from: Point, to: Point, reach: number): [number, number] | null {
+    const distanceAt = (t: number) => distanceToSegment(lerpPoint(a, b, t), from, to);
+
+    // Ternary search for the closest point
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 30; i++) {
+        const m1 = low + (high - low) / 3;
+        const m2 = high - (high - low) / 3;
+        if (distanceAt(m1) < distanceAt(m2)) {
+            high = m2;
+        } else {
+            low = m1;
+        }
+    }
+    const closest = (low + high) / 2;
+    if (distanceAt(closest) > reach) {
+        return null;
+    }
+
+    // Binary search for where the segment enters and leaves the eraser path
+    const findBoundary = (inside: number, outside: number) => {
+        for (let i = 0; i < 30; i++) {
+            const middle = (inside + outside) / 2;
+            if (distanceAt(middle) <= reach) {
+                inside = middle;
+            } else {
+                outside = middle;
             }
-        });
-        this.resizeObserver.observe(this.canvas.parentElement!); // Assuming the canvas is appended to the nodeElement
+        }
+        return inside;
+    };
+    const t0 = distanceAt(0) <= reach ? 0 : findBoundary(closest, 0);
+    const t1 = distanceAt(1) <= reach ? 1 : findBoundary(closest, 1);
+    return [t0, t1];
+}
 
-        // Render existing strokes upon initialization
-        this.redraw();
+// Cut the parts of a stroke within reach of the eraser path out of it, returning the remaining pieces,
+// or null when the stroke isn't touched
+function eraseFromStroke(stroke: Stroke, from: Point, to: Point, radius: number): Stroke[] | null {
+    // Cheap bounding box rejection before the exact test; the cached bounds include the stroke's width
+    if (!boundsIntersect(getCachedStrokeBounds(stroke), getSegmentBounds(from, to, radius))) {
+        return null;
     }
 
-    onResize(width: number, height: number) {
-        // Update canvas size
-        this.canvas.width = width;
-        this.canvas.height = height;
+    if (isShape(stroke)) {
+        // Partially erased shapes become plain strokes along their outline
+        return eraseFromStroke(shapeToStroke(stroke), from, to, radius);
+    }
 
-        // Redraw strokes
-        this.redraw();
+    const reach = radius + getStrokeHalfWidth(stroke);
+    const eraserBounds = getSegmentBounds(from, to, reach);
+    const points = stroke.points;
+
+    if (points.length === 1) {
+        return distanceToSegment(points[0], from, to) <= reach ? [] : null;
     }
 
-    onPointerDown(e: PointerEvent) {
-        if (this.plugin.selectedTool === null) {
-            return; // Do nothing if no tool is selected
+    const pieces: Stroke[] = [];
+    let run: Point[] = distanceToSegment(points[0], from, to) <= reach ? [] : [points[0]];
+    let touched = false;
+    const closeRun = () => {
+        if (run.length > 1) {
+            pieces.push({ ...stroke, points: run });
+        }
+        run = [];
+    };
+
+    for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i];
+        const b = points[i + 1];
+        // Most segments are far from the eraser, so their boxes are compared before searching for the interval
+        const interval = boundsIntersect(getSegmentBounds(a, b, 0), eraserBounds)
+            ? getErasedInterval(a, b, from, to, reach)
+            : null;
+        if (!interval) {
+            run.push(b);
+            continue;
         }
 
-        const rect = this.canvas.getBoundingClientRect();
-        const scaleX = this.canvas.width / rect.width;
-        const scaleY = this.canvas.height / rect.height;
-        const scrollLeft = this.canvas.parentElement?.scrollLeft || 0;
-        const scrollTop = this.canvas.parentElement?.scrollTop || 0;
-
-        const point: Point = {
-            x: (e.clientX - rect.left + scrollLeft) * scaleX,
-            y: (e.clientY - rect.top + scrollTop) * scaleY,
-        };
-
-        if (this.plugin.selectedTool === 'eraser') {
-            this.eraseStrokeAtPoint(point);
-        } else if (typeof this.plugin.selectedTool === 'number') {
-            const penIndex = this.plugin.selectedTool;
-            const penColor = this.plugin.settings.penColors[penIndex];
-            const penSize = this.plugin.settings.penSizes[penIndex];
-            const penSmoothness = this.plugin.settings.penSmoothness[penIndex];
-            const penOpacity = this.plugin.settings.penOpacities[penIndex];
-            this.currentStroke = {
-                color: penColor,
-                size: penSize,
-                smoothing: penSmoothness,
-                opacity: penOpacity,
-                points: [point],
-            };
+        touched = true;
+        const [t0, t1] = interval;
+        if (t0 > 0) {
+            run.push(lerpPoint(a, b, t0));
+        }
+        closeRun();
+        if (t1 < 1) {
+            run = [lerpPoint(a, b, t1), b];
         }
     }
 
-    onPointerMove(e: PointerEvent) {
-        if (this.plugin.selectedTool === null) {
-            return; // Do nothing if no tool is selected
-        }
+    if (!touched) {
+        return null;
+    }
+    closeRun();
+    return pieces;
+}
 
-        const rect = this.canvas.getBoundingClientRect();
-        const scaleX = this.canvas.width / rect.width;
-        const scaleY = this.canvas.height / rect.height;
-        const scrollLeft = this.canvas.parentElement?.scrollLeft || 0;
-        const scrollTop = this.canvas.parentElement?.scrollTop || 0;
-
-        const point: Point = {
-            x: (e.clientX - rect.left + scrollLeft) * scaleX,
-            y: (e.clientY - rect.top + scrollTop) * scaleY,
+// Check whether a stroke was recorded with pressure information
+function hasPressureData(stroke: Stroke): boolean {
+    return stroke.points.some((point) => point.pressure !== undefined);
+}
+
+// Check whether a stroke's width follows its pressure; markers and highlighters have a constant width
+function isPressureSensitive(stroke: Stroke): boolean {
+    return (stroke.type === undefined || stroke.type === 'ballpoint') && hasPressureData(stroke);
+}
+
+// Width of a pressure-sensitive stroke at a point; a pressure of 0.5 gives the pen size
+function getPointWidth(size: number, point: Point): number {
+    const pressure = point.pressure ?? 0.5;
+    let width = size * (0.25 + 1.5 * pressure);
+
+    // Tilting the pen widens the line like the side of a pencil lead
+    if (point.tiltX !== undefined && point.tiltY !== undefined) {
+        const tilt = Math.min(90, Math.hypot(point.tiltX, point.tiltY)) / 90;
+        width *= 1 + tilt * 0.5;
+    }
+    return width;
+}
+
+// Sample the smoothed path drawn for a stroke, interpolating pressure along the way.
+// Follows the same quadratic curves as the fixed-width rendering in drawStroke.
+function getSmoothedCenterline(stroke: Stroke): Point[] {
+    const points = stroke.points;
+    const smoothing = stroke.smoothing;
+    const centerline: Point[] = [points[0]];
+    let start = points[0];
+
+    for (let i = 0; i < points.length - 1; i++) {
+        const curr = points[i];
+        const next = points[i + 1];
+        const end: Point = {
+            x: curr.x + (next.x - curr.x) * smoothing,
+            y: curr.y + (next.y - curr.y) * smoothing,
+            pressure: lerp(curr.pressure ?? 0.5, next.pressure ?? 0.5, smoothing),
+            tiltX: curr.tiltX,
+            tiltY: curr.tiltY,
         };
 
-        if (this.currentStroke) {
-            this.currentStroke.points.push(point);
-            this.redraw();
-        } else if (this.plugin.selectedTool === 'eraser' && e.buttons === 1) {
-            // Only erase when the mouse button is pressed
-            this.eraseStrokeAtPoint(point);
+        const length = Math.hypot(curr.x - start.x, curr.y - start.y) + Math.hypot(end.x - curr.x, end.y - curr.y);
+        const steps = Math.min(8, Math.max(1, Math.ceil(length / 4)));
+        for (let step = 1; step <= steps; step++) {
+            const t = step / steps;
+            const mt = 1 - t;
+            centerline.push({
+                x: mt * mt * start.x + 2 * mt * t * curr.x + t * t * end.x,
+                y: mt * mt * start.y + 2 * mt * t * curr.y + t * t * end.y,
+                pressure: mt * mt * (start.pressure ?? 0.5) + 2 * mt * t * (curr.pressure ?? 0.5) + t * t * (end.pressure ?? 0.5),
+                tiltX: curr.tiltX,
+                tiltY: curr.tiltY,
+            });
         }
+        start = end;
     }
 
-    onPointerUp() {
-        if (this.currentStroke) {
-            this.strokes.push(this.currentStroke);
-            this.currentStroke = null;
-            this.undoneStrokes = []; // Clear redo stack
-            this.redraw();
+    // The last line segment
+    centerline.push(points[points.length - 1]);
+    return centerline;
+}
 
-            // Save strokes after adding a new stroke
-            this.plugin.saveStrokes(this.nodeId, this.strokes);
+// Build the filled outline of a pressure-sensitive stroke as round joints plus the quads between them
+function getStrokeOutline(stroke: Stroke): StrokeOutline {
+    const centerline = getSmoothedCenterline(stroke);
+    const circles: Circle[] = centerline.map((point) => ({
+        x: point.x,
+        y: point.y,
+        r: getPointWidth(stroke.size, point) / 2,
+    }));
+    const polygons: Point[][] = [];
+
+    for (let i = 0; i < circles.length - 1; i++) {
+        const a = circles[i];
+        const b = circles[i + 1];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length === 0) {
+            continue;
         }
+
+        // Normal of the segment; quads wind the same way as the circles so the nonzero fill is a union
+        const nx = -(b.y - a.y) / length;
+        const ny = (b.x - a.x) / length;
+        polygons.push([
+            { x: a.x - nx * a.r, y: a.y - ny * a.r },
+            { x: b.x - nx * b.r, y: b.y - ny * b.r },
+            { x: b.x + nx * b.r, y: b.y + ny * b.r },
+            { x: a.x + nx * a.r, y: a.y + ny * a.r },
+        ]);
     }
 
-    onPointerLeave() {
-        if (this.currentStroke) {
-            this.strokes.push(this.currentStroke);
-            this.currentStroke = null;
-            this.undoneStrokes = []; // Clear redo stack
-            this.redraw();
+    return { circles, polygons };
+}
+
+// Build the area swept by a highlighter's chisel tip as one convex polygon per path segment
+function getHighlighterOutline(stroke: Stroke): Point[][] {
+    const centerline = getSmoothedCenterline(stroke);
+    const nibX = Math.cos(HIGHLIGHTER_NIB_ANGLE);
+    const nibY = Math.sin(HIGHLIGHTER_NIB_ANGLE);
+    const halfLength = stroke.size / 2;
+    const halfThickness = Math.max(0.5, stroke.size * HIGHLIGHTER_NIB_THICKNESS) / 2;
+
+    // Corners of the flat tip centered on a point
+    const nibCorners = (point: Point): Point[] => [
+        { x: point.x + nibX * halfLength - nibY * halfThickness, y: point.y + nibY * halfLength + nibX * halfThickness },
+        { x: point.x + nibX * halfLength + nibY * halfThickness, y: point.y + nibY * halfLength - nibX * halfThickness },
+        { x: point.x - nibX * halfLength + nibY * halfThickness, y: point.y - nibY * halfLength - nibX * halfThickness },
+        { x: point.x - nibX * halfLength - nibY * halfThickness, y: point.y - nibY * halfLength + nibX * halfThickness },
+    ];
+
+    const polygons: Point[][] = [];
+    for (let i = 0; i < centerline.length - 1; i++) {
+        polygons.push(getConvexHull([...nibCorners(centerline[i]), ...nibCorners(centerline[i + 1])]));
+    }
+    return polygons;
+}
 
-            // Save strokes after adding a new stroke
-            this.plugin.saveStrokes(this.nodeId, this.strokes);
+// Convex hull (monotone chain), always wound the same way so nonzero fills of several hulls form a union
+function getConvexHull(points: Point[]): Point[] {
+    const sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+    const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+    const lower: Point[] = [];
+    sorted.forEach((point) => {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+            lower.pop();
         }
+        lower.push(point);
+    });
+    const upper: Point[] = [];
+    sorted.slice().reverse().forEach((point) => {
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+            upper.pop();
+        }
+        upper.push(point);
+    });
+    lower.pop();
+    upper.pop();
+    return lower.concat(upper);
+}
+
+// Innermost rendered text blocks inside an element, in document order
+function getTextBlocks(root: HTMLElement): HTMLElement[] {
+    const blocks = Array.from(root.querySelectorAll<HTMLElement>(TEXT_ANCHOR_BLOCK_SELECTOR));
+    return blocks.filter((block) => !block.querySelector(TEXT_ANCHOR_BLOCK_SELECTOR) && normalizeBlockText(block) !== '');
+}
+
+function normalizeBlockText(block: HTMLElement): string {
+    return (block.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+// Character offset in a block's text closest to a position on screen, 0 if the position isn't over its text
+function getTextOffsetAtPoint(block: HTMLElement, clientX: number, clientY: number): number {
+    const caret = document.caretRangeFromPoint(clientX, clientY);
+    if (!caret || !block.contains(caret.startContainer)) {
+        return 0;
     }
+    const before = document.createRange();
+    before.selectNodeContents(block);
+    before.setEnd(caret.startContainer, caret.startOffset);
+    return before.toString().length;
+}
 
-    eraseStrokeAtPoint(point: Point) {
-        // Erase any stroke that the point touches
-        const eraserSize = 10; // Fixed eraser size; you can make this configurable
-        const newStrokes = this.strokes.filter((stroke) => {
-            return !stroke.points.some((strokePoint) => {
-                const dx = strokePoint.x - point.x;
-                const dy = strokePoint.y - point.y;
-                return Math.sqrt(dx * dx + dy * dy) <= eraserSize;
-            });
-        });
-        if (newStrokes.length !== this.strokes.length) {
-            this.strokes = newStrokes;
-            this.redraw();
+// Position on screen of the text a stroke is anchored to within an element, or null when the text is gone
+function locateTextAnchorRect(root: HTMLElement, anchor: TextAnchor): DOMRect | null {
+    const blocks = getTextBlocks(root);
+
+    // The same block, even if it moved; otherwise the anchored text wherever it ended up
+    const sameBlocks = blocks.filter((element) => normalizeBlockText(element) === anchor.block);
+    let block: HTMLElement | undefined = sameBlocks[anchor.occurrence] || sameBlocks[0];
+    let offset = anchor.offset;
+    if (!block && anchor.text.trim() !== '') {
+        block = blocks.find((element) => (element.textContent || '').includes(anchor.text));
+        offset = block ? (block.textContent || '').indexOf(anchor.text) : 0;
+    }
+    return block ? getTextOffsetRect(block, offset) : null;
+}
 
-            // Save strokes after erasing
-            this.plugin.saveStrokes(this.nodeId, this.strokes);
+// Screen rectangle of the character at an offset in a block's text, or of the block if there is none
+function getTextOffsetRect(block: HTMLElement, offset: number): DOMRect {
+    const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+    let remaining = offset;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const length = node.textContent?.length || 0;
+        if (remaining < length) {
+            const range = document.createRange();
+            range.setStart(node, remaining);
+            range.setEnd(node, remaining + 1);
+            const rect = range.getClientRects()[0];
+            if (rect) {
+                return rect;
+            }
+            break;
         }
+        remaining -= length;
     }
+    return block.getBoundingClientRect();
+}
 
-    redraw() {
-        // Clear canvas
-        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+// The view as a canvas view, or null for other views
+function asCanvasView(view: View): CanvasView | null {
+    return view.getViewType() === 'canvas' ? view as CanvasView : null;
+}
 
-        // Redraw all strokes
-        this.strokes.forEach((stroke) => {
-            this.drawStroke(stroke);
-        });
+// Canvas viewport as a transform from canvas coordinates to pixels of an element covering the view
+function getCanvasViewTransform(canvas: Canvas, width: number, height: number): ViewTransform {
+    const scale: number = canvas.scale ?? Math.pow(2, canvas.zoom ?? 0);
+    return {
+        x: width / 2 - (canvas.x ?? 0) * scale,
+        y: height / 2 - (canvas.y ?? 0) * scale,
+        scale,
+    };
+}
 
-        // Draw current stroke
-        if (this.currentStroke) {
-            this.drawStroke(this.currentStroke);
+// Backing store resolution for drawings inside canvas nodes: screen density times canvas zoom, in steps
+function getCanvasPixelRatio(canvas: Canvas | undefined): number {
+    const ratio = window.devicePixelRatio * (canvas?.scale ?? 1);
+    return Math.min(MAX_PIXEL_RATIO, Math.max(PIXEL_RATIO_STEP, Math.ceil(ratio / PIXEL_RATIO_STEP) * PIXEL_RATIO_STEP));
+}
+
+// Unique id for a new pen
+function createPenId(): string {
+    return `pen-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function getPenTypeIcon(type: PenType): string {
+    return (PEN_TYPES.find((penType) => penType.type === type) || PEN_TYPES[0]).icon;
+}
+
+function serializePens(pens: Pen[]): string {
+    const data: PenSetData = {
+        version: PEN_SET_VERSION,
+        pens: pens.map((pen) => {
+            const exported: Partial<Pen> = { ...pen };
+            delete exported.id;
+            return exported as Omit<Pen, 'id'>;
+        }),
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+// Read an exported pen set, or a bare list of pens, giving every pen a new id
+function parsePens(json: string): Pen[] {
+    const parsed = JSON.parse(json);
+    const entries: unknown[] | undefined = Array.isArray(parsed) ? parsed : parsed?.pens;
+    if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error('No pens found.');
+    }
+    return entries.map((entry, i) => {
+        if (typeof entry !== 'object' || entry === null) {
+            throw new Error(`Pen ${i + 1} is not an object.`);
         }
+        const pen = entry as Partial<Pen>;
+        const isNumber = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max;
+        return {
+            id: createPenId(),
+            name: typeof pen.name === 'string' && pen.name ? pen.name : `Pen ${i + 1}`,
+            icon: typeof pen.icon === 'string' ? pen.icon : DEFAULT_PEN.icon,
+            type: PEN_TYPES.some((penType) => penType.type === pen.type) ? pen.type as PenType : DEFAULT_PEN.type,
+            color: typeof pen.color === 'string' && /^#[0-9a-f]{6}$/i.test(pen.color) ? pen.color : DEFAULT_PEN.color,
+            size: isNumber(pen.size, 1, 50) ? pen.size as number : DEFAULT_PEN.size,
+            smoothness: isNumber(pen.smoothness, 0, 1) ? pen.smoothness as number : DEFAULT_PEN.smoothness,
+            opacity: isNumber(pen.opacity, 0, 1) ? pen.opacity as number : DEFAULT_PEN.opacity,
+        };
+    });
+}
+
+function isDrawingFilePath(path: string): boolean {
+    return path.endsWith('.' + DRAWING_FILE_EXTENSION);
+}
+
+// Read the strokes of a .draw file; an empty file is an empty drawing
+function parseDrawingFile(data: string): Stroke[] {
+    if (data.trim() === '') {
+        return [];
     }
+    try {
+        const parsed: DrawingFileData = JSON.parse(data);
+        return Array.isArray(parsed.strokes) ? decodeStrokes(parsed.strokes) : [];
+    } catch (error) {
+        console.error('Failed to parse drawing file:', error);
+        return [];
+    }
+}
 
-    drawStroke(stroke: Stroke) {
-        if (stroke.points.length < 2) return;
+function serializeDrawingFile(strokes: Stroke[]): string {
+    const data: DrawingFileData = { version: DRAWING_DATA_VERSION, strokes: strokes.map(encodeStroke) };
+    return JSON.stringify(data);
+}
 
-        this.ctx.save();
+// Read-only image of strokes, from the top-left corner of the drawing surface to the bottom-right-most stroke
+function createDrawingImage(strokes: Stroke[]): HTMLImageElement | null {
+    const bounds = getStrokesBounds(strokes);
+    if (!bounds) {
+        return null;
+    }
+    const image = document.createElement('img');
+    image.classList.add('drawing-image');
+    image.src = 'data:image/svg+xml;charset=utf-8,' +
+        encodeURIComponent(strokesToSvg(strokes, { minX: 0, minY: 0, maxX: bounds.maxX, maxY: bounds.maxY }));
+    return image;
+}
 
-        // Ensure lineCap and lineJoin are set to 'round'
-        this.ctx.lineCap = 'round';
-        this.ctx.lineJoin = 'round';
+// Build a standalone SVG document of strokes cropped to the given bounds, highlighters below the ink
+function strokesToSvg(strokes: Stroke[], bounds: Bounds): string {
+    const width = formatSvgNumber(bounds.maxX - bounds.minX);
+    const height = formatSvgNumber(bounds.maxY - bounds.minY);
+    const highlights = strokes.filter((stroke) => stroke.type === 'highlighter').map(strokeToSvgPath);
+    const ink = strokes.filter((stroke) => stroke.type !== 'highlighter').map(strokeToSvgPath);
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+            `viewBox="${formatSvgNumber(bounds.minX)} ${formatSvgNumber(bounds.minY)} ${width} ${height}">`,
+        `<g style="mix-blend-mode: multiply">`,
+        ...highlights,
+        '</g>',
+        ...ink,
+        '</svg>',
+        '',
+    ].join('\n');
+}
 
-        this.ctx.lineWidth = stroke.size;
-        this.ctx.strokeStyle = stroke.color;
-        this.ctx.globalAlpha = stroke.opacity;
+// SVG path element reproducing how drawStroke renders a stroke
+function strokeToSvgPath(stroke: Stroke): string {
+    const color = escapeSvgAttribute(stroke.color);
+    const opacity = formatSvgNumber(stroke.opacity);
+    const polygonsToPath = (polygons: Point[][]) => polygons
+        .map((polygon) => `M${polygon.map((point) => formatSvgPoint(point)).join('L')}Z`)
+        .join('');
+
+    if (isShape(stroke)) {
+        const d = getShapePaths(stroke)
+            .map((path) => `M${path.map((point) => formatSvgPoint(point)).join('L')}`)
+            .join('');
+        const lineCap = stroke.type === 'highlighter' ? 'butt' : 'round';
+        return `<path d="${d}" fill="none" stroke="${color}" stroke-width="${formatSvgNumber(stroke.size)}" ` +
+            `stroke-linecap="${lineCap}" stroke-linejoin="round" opacity="${opacity}"/>`;
+    }
+    if (stroke.points.length < 2) {
+        return '';
+    }
 
-        this.ctx.beginPath();
+    if (stroke.type === 'highlighter') {
+        return `<path d="${polygonsToPath(getHighlighterOutline(stroke))}" fill="${color}" fill-rule="nonzero" opacity="${opacity}"/>`;
+    }
 
-        const points = stroke.points;
-        const smoothing = stroke.smoothing;
+    if (isPressureSensitive(stroke)) {
+        // Full circles as two half arcs, drawn clockwise like the canvas arcs so the nonzero fill is a union
+        const outline = getStrokeOutline(stroke);
+        const circles = outline.circles
+            .map((circle) => {
+                const r = formatSvgNumber(circle.r);
+                return `M${formatSvgNumber(circle.x + circle.r)} ${formatSvgNumber(circle.y)}` +
+                    `A${r} ${r} 0 1 1 ${formatSvgNumber(circle.x - circle.r)} ${formatSvgNumber(circle.y)}` +
+                    `A${r} ${r} 0 1 1 ${formatSvgNumber(circle.x + circle.r)} ${formatSvgNumber(circle.y)}Z`;
+            })
+            .join('');
+        return `<path d="${circles}${polygonsToPath(outline.polygons)}" fill="${color}" fill-rule="nonzero" opacity="${opacity}"/>`;
+    }
 
-        this.ctx.moveTo(points[0].x, points[0].y);
+    // Same quadratic smoothing as drawStroke
+    const points = stroke.points;
+    const smoothing = stroke.smoothing;
+    let d = `M${formatSvgPoint(points[0])}`;
+    for (let i = 0; i < points.length - 1; i++) {
+        const curr = points[i];
+        const next = points[i + 1];
+        const control = { x: curr.x + (next.x - curr.x) * smoothing, y: curr.y + (next.y - curr.y) * smoothing };
+        d += `Q${formatSvgPoint(curr)} ${formatSvgPoint(control)}`;
+    }
+    d += `L${formatSvgPoint(points[points.length - 1])}`;
+    return `<path d="${d}" fill="none" stroke="${color}" stroke-width="${formatSvgNumber(stroke.size)}" ` +
+        `stroke-linecap="round" stroke-linejoin="round" opacity="${opacity}"/>`;
+}
 
-        for (let i = 0; i < points.length - 1; i++) {
-            const curr = points[i];
-            const next = points[i + 1];
+function formatSvgPoint(point: Point): string {
+    return `${formatSvgNumber(point.x)} ${formatSvgNumber(point.y)}`;
+}
 
-            const cpx = curr.x + (next.x - curr.x) * smoothing;
-            const cpy = curr.y + (next.y - curr.y) * smoothing;
+// Round to two decimals without trailing zeros to keep paths short
+function formatSvgNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
 
-            this.ctx.quadraticCurveTo(curr.x, curr.y, cpx, cpy);
-        }
+function escapeSvgAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
 
-        // Draw the last line segment
-        const lastPoint = points[points.length - 1];
-        this.ctx.lineTo(lastPoint.x, lastPoint.y);
+function lerp(a: number, b: number, t: number): number {
+    return a + (b - a) * t;
+}
 
-        this.ctx.stroke();
+type ShapeKind = 'line' | 'arrow' | 'rectangle' | 'ellipse';
 
-        this.ctx.restore();
-    }
+// A geometric shape drawn with a shape tool or recognized from a freehand stroke. Its points define
+// the shape (see getShapePoints) and it is stored in the same list as strokes.
+interface Shape extends Stroke {
+    shape: ShapeKind;
+}
+
+// Tool used when interacting with drawing canvases: a pen (chosen by id in the tool state), eraser, stroke selection, or null for text
+type DrawingTool = 'eraser' | 'select' | 'pen' | null;
+
+// Tool selected in a view, remembered for the file shown in it
+interface ToolState {
+    tool: DrawingTool;
+    penId: string | null; // Id rather than position, so the pen stays selected when pens are reordered
+    shape: ShapeKind | null;
+    penOverrides: { [penId: string]: Partial<PenProperties> };
+}
+
+// Properties of a pen that a view's toolbar can change
+interface PenProperties {
+    color: string;
+    size: number;
+    smoothness: number;
+    opacity: number;
+    type: PenType;
+}
+
+// Pen in the pen library
+interface Pen extends PenProperties {
+    id: string; // Stable across renames and reordering
+    name: string;
+    icon: string; // Lucide icon name, empty for the icon of the pen type
+}
+
+// Pen set as exported for sharing, without the ids of the exporting vault
+interface PenSetData {
+    version: number;
+    pens: Omit<Pen, 'id'>[];
+}
+
+// Canvas 2D style transform [a, b, c, d, e, f]: x' = a*x + c*y + e, y' = b*x + d*y + f
+type AffineMatrix = [number, number, number, number, number, number];
+
+// Uniform scale followed by a translation
+interface ViewTransform {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+// Move, scale or rotate of selected strokes in progress
+interface SelectionDrag {
+    mode: 'move' | 'scale' | 'rotate';
+    start: Point; // Pointer position when the drag started
+    bounds: Bounds; // Selection bounds when the drag started
+    anchor?: Point; // Fixed corner while scaling
+    baseStrokes: Stroke[]; // All strokes when the drag started
+    indices: number[]; // Positions of the selected strokes in baseStrokes
+}
+
+// Ballpoint follows pressure, marker has a constant width, highlighter has a flat tip and multiplies
+type PenType = 'ballpoint' | 'marker' | 'highlighter';
+
+type DrawingExportFormat = 'svg' | 'png';
+
+interface DrawingExportOptions {
+    format: DrawingExportFormat;
+    scale: number; // PNG pixels per node pixel
+    embed: boolean; // Add the exported file to the canvas as a file node
 }
 
+// 'stroke' removes whole strokes, 'partial' only the touched parts
+type EraserMode = 'stroke' | 'partial';
+
 interface Point {
     x: number;
     y: number;
+    pressure?: number; // 0 to 1, only recorded for pressure-sensitive strokes
+    tiltX?: number; // Pen tilt in degrees
+    tiltY?: number;
+    t?: number; // Milliseconds since the start of the stroke
+}
+
+interface Circle {
+    x: number;
+    y: number;
+    r: number;
+}
+
+// Filled shape of a pressure-sensitive stroke
+interface StrokeOutline {
+    circles: Circle[];
+    polygons: Point[][];
 }
 
 interface Stroke {
@@ -919,4 +5717,145 @@ interface Stroke {
     smoothing: number;
     opacity: number;
     points: Point[];
+    type?: PenType; // Missing for ballpoint strokes
+    anchor?: TextAnchor; // Set on nodes whose ink follows their text
+}
+
+// Text a stroke is attached to, found again after the content reflows or is edited
+interface TextAnchor {
+    block: string; // Whitespace-normalized text of the block the stroke was drawn on
+    occurrence: number; // Index among blocks with the same text
+    offset: number; // Character offset of the anchor in the block
+    text: string; // Text following the offset, to find the anchor after its block was edited
+    x: number; // Position of the anchor in stroke coordinates when the stroke was last placed
+    y: number;
+    missing?: boolean; // Set while the anchored text can't be found
+}
+
+// Undo/redo stacks of previous stroke lists, most recent last
+interface DrawingHistory {
+    undoStack: Stroke[][];
+    redoStack: Stroke[][];
+}
+
+interface NodeDrawingData {
+    strokes: Stroke[];
+    inkScaling?: InkScaling; // Missing when the ink is anchored to the top-left corner
+    textAnchoring?: boolean; // Strokes follow the text they were drawn on
+    history?: DrawingHistory; // Shared with the views of the node, the most recent steps are saved
+    archived?: boolean; // The node was made non-drawable and its strokes are kept for when it is made drawable again
+}
+
+// Drawing data of nodes made non-drawable together, as it was before
+interface RemovedDrawing {
+    nodes: { [nodeId: string]: NodeDrawingData };
+}
+
+// Node content size the strokes were drawn at, for ink that scales with its node
+interface InkScaling {
+    baseWidth: number;
+    baseHeight: number;
+}
+
+// Contents of a canvas' drawing file
+interface CanvasDrawingData {
+    version: number;
+    nodes: { [nodeId: string]: NodeDrawingData };
+    removed?: RemovedDrawing[]; // Oldest first, for undoing making nodes non-drawable
+}
+
+// Contents of a standalone .draw file
+interface DrawingFileData {
+    version: number;
+    strokes: StoredStroke[];
+}
+
+// Stroke as written to disk, with its points packed by encodeStroke
+interface EncodedStroke extends Omit<Stroke, 'points'> {
+    fields: string; // Comma-separated optional point fields present after x and y
+    data: string; // Base64 of the delta-encoded varints of all point fields
+}
+
+type StoredStroke = Stroke | EncodedStroke;
+
+interface StoredNodeDrawingData extends Omit<NodeDrawingData, 'strokes' | 'history'> {
+    strokes: StoredStroke[];
+    history?: StoredHistory;
+}
+
+// Undo history as written to disk; steps list stroke indices, where indices past the node's current
+// strokes point into the history's own strokes
+interface StoredHistory {
+    strokes: StoredStroke[];
+    undo: number[][];
+    redo: number[][];
+}
+
+// Stored drawing that no longer matches a node; canvasPath is null for legacy settings entries
+// and nodeId is null when the whole canvas file is gone
+interface OrphanedDrawing {
+    canvasPath: string | null;
+    nodeId: string | null;
+    strokeCount: number;
+    size: number; // Size in bytes on disk
+}
+
+// Parts of the canvas view used by the plugin, which aren't in the public API
+interface CanvasView extends ItemView {
+    file: TFile | null;
+    canvas: Canvas;
+}
+
+interface Canvas {
+    canvasEl: HTMLElement; // Node container, transformed to follow the viewport
+    nodes: Map<string, CanvasNode>;
+    selection: Set<CanvasNode>;
+    x?: number; // Viewport center in canvas coordinates
+    y?: number;
+    zoom?: number;
+    scale?: number;
+    posCenter(): { x: number; y: number };
+    createFileNode(options: {
+        file: TFile;
+        pos: { x: number; y: number };
+        size: { width: number; height: number };
+        save: boolean;
+    }): CanvasNode;
+    select(node: CanvasNode): void;
+    deselectAll(): void;
+    requestSave(): void;
+}
+
+interface CanvasNode {
+    id: string;
+    canvas: Canvas;
+    nodeEl: HTMLElement;
+    contentEl: HTMLElement;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Part of the app's embed registry used to render embedded .draw files, which isn't in the public API
+interface EmbedRegistry {
+    registerExtension(extension: string, create: (context: EmbedContext, file: TFile) => Component): void;
+    unregisterExtension(extension: string): void;
+}
+
+interface EmbedContext {
+    containerEl: HTMLElement;
+}
+
+// Canvas file node showing a note, whose ink is drawn over the rendered note
+interface NoteAnnotationSource {
+    canvasPath: string;
+    nodeId: string;
+}
+
+// Subset of a node entry in a .canvas file
+interface CanvasNodeData {
+    id: string;
+    type: string;
+    file?: string;
 }